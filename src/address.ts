@@ -3,7 +3,18 @@
  * Validation, parsing, and conversion functions for Stacks addresses
  */
 
-import { c32addressDecode, c32address } from 'c32check';
+import {
+  c32addressDecode,
+  c32address,
+  c32decode,
+  c32normalize,
+  c32ToB58,
+  b58ToC32,
+} from 'c32check';
+import { ripemd160 } from '@noble/hashes/legacy';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import { isValidContractName, MAX_CONTRACT_NAME_LENGTH } from './contracts';
 
 // Address version bytes
 export const ADDRESS_VERSION = {
@@ -13,8 +24,35 @@ export const ADDRESS_VERSION = {
   TESTNET_MULTI_SIG: 21,
 } as const;
 
+// Bitcoin base58check version bytes (testnet and regtest share versions)
+export const BITCOIN_ADDRESS_VERSION = {
+  MAINNET_P2PKH: 0,
+  MAINNET_P2SH: 5,
+  TESTNET_P2PKH: 111,
+  TESTNET_P2SH: 196,
+} as const;
+
+// Stacks version byte -> Bitcoin version byte
+const STACKS_TO_BITCOIN_VERSION: Record<number, number> = {
+  [ADDRESS_VERSION.MAINNET_SINGLE_SIG]: BITCOIN_ADDRESS_VERSION.MAINNET_P2PKH,
+  [ADDRESS_VERSION.MAINNET_MULTI_SIG]: BITCOIN_ADDRESS_VERSION.MAINNET_P2SH,
+  [ADDRESS_VERSION.TESTNET_SINGLE_SIG]: BITCOIN_ADDRESS_VERSION.TESTNET_P2PKH,
+  [ADDRESS_VERSION.TESTNET_MULTI_SIG]: BITCOIN_ADDRESS_VERSION.TESTNET_P2SH,
+};
+
+// Crockford base32 alphabet used by c32check
+const C32_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+// Longest possible standard address (S + version + 39 c32 characters)
+const MAX_ADDRESS_LENGTH = 41;
+
 export type NetworkType = 'mainnet' | 'testnet';
 export type AddressType = 'single-sig' | 'multi-sig';
+export type MultisigHashMode =
+  | 'p2sh'
+  | 'p2wsh-p2sh'
+  | 'p2sh-non-sequential'
+  | 'p2wsh-p2sh-non-sequential';
 
 export interface AddressInfo {
   address: string;
@@ -25,6 +63,110 @@ export interface AddressInfo {
   isValid: boolean;
 }
 
+export interface StandardPrincipal {
+  kind: 'standard';
+  address: string;
+  network: NetworkType;
+  version: number;
+  hash160: string;
+}
+
+export interface ContractPrincipal {
+  kind: 'contract';
+  address: string;
+  contractName: string;
+  network: NetworkType;
+  version: number;
+  hash160: string;
+}
+
+export type Principal = StandardPrincipal | ContractPrincipal;
+
+export type PrincipalError =
+  | 'invalid-input'
+  | 'invalid-format'
+  | 'invalid-checksum'
+  | 'unknown-version'
+  | 'invalid-contract-name'
+  | 'too-long';
+
+export type AddressIssue =
+  | 'empty'
+  | 'wrong-prefix'
+  | 'invalid-characters'
+  | 'wrong-length'
+  | 'checksum-mismatch';
+
+export interface AddressDiagnosis {
+  input: string;
+  normalized: string;
+  isValid: boolean;
+  issue: AddressIssue | null;
+  message: string;
+  network: NetworkType | null;
+  invalidCharacters: { position: number; character: string }[];
+  normalizations: { position: number; from: string; to: string }[];
+  suggestions: string[];
+}
+
+export interface AddressBatchOptions {
+  network?: NetworkType;
+  allowContracts?: boolean;
+  dedupe?: boolean;
+}
+
+export type AddressRowError =
+  | PrincipalError
+  | 'network-mismatch'
+  | 'contract-not-allowed'
+  | 'duplicate';
+
+export interface AddressValidationRow {
+  index: number;
+  input: string;
+  isValid: boolean;
+  principal?: Principal;
+  error?: AddressRowError;
+  message?: string;
+  duplicateOf?: number;
+}
+
+export interface AddressBatchSummary {
+  total: number;
+  valid: number;
+  invalid: number;
+  duplicates: number;
+  networkMismatches: number;
+}
+
+export interface AddressBatchResult {
+  rows: AddressValidationRow[];
+  duplicates: { input: string; indices: number[] }[];
+  networkMismatches: AddressValidationRow[];
+  summary: AddressBatchSummary;
+}
+
+export type ParsedPrincipal =
+  | { isValid: true; principal: Principal }
+  | { isValid: false; error: PrincipalError; message: string };
+
+/**
+ * Thrown when an address belongs to a different network than expected
+ */
+export class AddressNetworkError extends Error {
+  readonly address: string;
+  readonly expected: NetworkType;
+  readonly actual: NetworkType;
+
+  constructor(address: string, expected: NetworkType, actual: NetworkType) {
+    super(`Address ${address} is a ${actual} address, expected ${expected}`);
+    this.name = 'AddressNetworkError';
+    this.address = address;
+    this.expected = expected;
+    this.actual = actual;
+  }
+}
+
 /**
  * Validates a Stacks address
  * @param address - The address to validate
@@ -77,35 +219,13 @@ export function getNetworkFromAddress(address: string): NetworkType | null {
 export function parseStacksAddress(address: string): AddressInfo | null {
   try {
     const [version, hash160] = c32addressDecode(address);
-    
-    let network: NetworkType;
-    let type: AddressType;
-    
-    switch (version) {
-      case ADDRESS_VERSION.MAINNET_SINGLE_SIG:
-        network = 'mainnet';
-        type = 'single-sig';
-        break;
-      case ADDRESS_VERSION.MAINNET_MULTI_SIG:
-        network = 'mainnet';
-        type = 'multi-sig';
-        break;
-      case ADDRESS_VERSION.TESTNET_SINGLE_SIG:
-        network = 'testnet';
-        type = 'single-sig';
-        break;
-      case ADDRESS_VERSION.TESTNET_MULTI_SIG:
-        network = 'testnet';
-        type = 'multi-sig';
-        break;
-      default:
-        return null;
-    }
+    const info = getVersionInfo(version);
+    if (!info) return null;
     
     return {
       address,
-      network,
-      type,
+      network: info.network,
+      type: info.type,
       version,
       hash160,
       isValid: true,
@@ -115,6 +235,199 @@ export function parseStacksAddress(address: string): AddressInfo | null {
   }
 }
 
+/**
+ * Parses a standard ("SP...") or contract ("SP....name") principal
+ * @param input - The principal to parse
+ * @returns The parsed principal, or the reason it was rejected
+ */
+export function parsePrincipal(input: string): ParsedPrincipal {
+  if (!input || typeof input !== 'string') {
+    return invalidPrincipal('invalid-input', 'Principal must be a non-empty string');
+  }
+  
+  const parts = input.split('.');
+  if (parts.length > 2) {
+    return invalidPrincipal('invalid-format', 'Principal must be in format "address" or "address.contract-name"');
+  }
+  
+  const [address, contractName] = parts;
+  
+  if (!/^S[0-9A-Z]+$/i.test(address)) {
+    return invalidPrincipal('invalid-format', 'Address must start with "S" followed by c32 characters');
+  }
+  
+  let version: number;
+  let hash160: string;
+  try {
+    [version, hash160] = c32addressDecode(address);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes('checksum')) {
+      return invalidPrincipal('invalid-checksum', 'Address checksum does not match');
+    }
+    return invalidPrincipal('invalid-format', message);
+  }
+  
+  if (hash160.length !== 40) {
+    return invalidPrincipal('invalid-format', 'Address does not encode a 20-byte hash160');
+  }
+  
+  const info = getVersionInfo(version);
+  if (!info) {
+    return invalidPrincipal('unknown-version', `Unknown address version byte: ${version}`);
+  }
+  
+  if (contractName === undefined) {
+    return {
+      isValid: true,
+      principal: { kind: 'standard', address, network: info.network, version, hash160 },
+    };
+  }
+  
+  if (contractName.length > MAX_CONTRACT_NAME_LENGTH) {
+    return invalidPrincipal(
+      'too-long',
+      `Contract name exceeds ${MAX_CONTRACT_NAME_LENGTH} characters`
+    );
+  }
+  
+  if (!isValidContractName(contractName)) {
+    return invalidPrincipal('invalid-contract-name', `Invalid contract name: ${contractName}`);
+  }
+  
+  return {
+    isValid: true,
+    principal: { kind: 'contract', address, contractName, network: info.network, version, hash160 },
+  };
+}
+
+/**
+ * Validates a standard or contract principal
+ * @param input - The principal to validate
+ */
+export function isValidPrincipal(input: string): boolean {
+  return parsePrincipal(input).isValid;
+}
+
+/**
+ * Diagnoses why an address is invalid, for inline form hints.
+ * Characters that c32 treats as aliases (O for 0, I and L for 1) are
+ * reported in `normalizations` but do not make an address invalid.
+ * On a checksum mismatch, every single-character substitution that yields
+ * a valid checksum is returned in `suggestions`.
+ * @param input - The address to diagnose
+ */
+export function diagnoseAddress(input: string): AddressDiagnosis {
+  const trimmed = typeof input === 'string' ? input.trim() : '';
+  const normalized = c32normalize(trimmed);
+  const diagnosis: AddressDiagnosis = {
+    input,
+    normalized,
+    isValid: false,
+    issue: null,
+    message: '',
+    network: null,
+    invalidCharacters: [],
+    normalizations: [],
+    suggestions: [],
+  };
+  
+  if (!trimmed) {
+    return { ...diagnosis, issue: 'empty', message: 'Address is empty' };
+  }
+  
+  for (let i = 0; i < trimmed.length; i++) {
+    const from = trimmed[i].toUpperCase();
+    if (from !== normalized[i]) {
+      diagnosis.normalizations.push({ position: i, from: trimmed[i], to: normalized[i] });
+    }
+    if (!C32_ALPHABET.includes(normalized[i])) {
+      diagnosis.invalidCharacters.push({ position: i, character: trimmed[i] });
+    }
+  }
+  
+  if (!/^S[PMTN]/.test(normalized)) {
+    return {
+      ...diagnosis,
+      issue: 'wrong-prefix',
+      message: 'Address must start with SP, SM, ST or SN',
+    };
+  }
+  
+  diagnosis.network = normalized[1] === 'P' || normalized[1] === 'M' ? 'mainnet' : 'testnet';
+  
+  if (diagnosis.invalidCharacters.length > 0) {
+    return {
+      ...diagnosis,
+      issue: 'invalid-characters',
+      message: `Address contains invalid characters: ${diagnosis.invalidCharacters
+        .map(c => c.character)
+        .join(', ')}`,
+    };
+  }
+  
+  // 20-byte hash160 + 4-byte checksum
+  if (normalized.length > MAX_ADDRESS_LENGTH || c32decode(normalized.slice(2)).length !== 48) {
+    return { ...diagnosis, issue: 'wrong-length', message: 'Address has the wrong length' };
+  }
+  
+  if (isValidStacksAddress(normalized)) {
+    return { ...diagnosis, isValid: true, message: 'Address is valid' };
+  }
+  
+  return {
+    ...diagnosis,
+    issue: 'checksum-mismatch',
+    message: 'Address checksum does not match',
+    suggestions: findChecksumCorrections(normalized),
+  };
+}
+
+/**
+ * Finds all single-character substitutions that produce a valid address
+ * @param address - A normalized address with a bad checksum
+ */
+function findChecksumCorrections(address: string): string[] {
+  const candidates: string[] = [];
+  
+  for (let i = 1; i < address.length; i++) {
+    // Keep the version character within the known address versions
+    const alphabet = i === 1 ? 'PMTN' : C32_ALPHABET;
+    for (const char of alphabet) {
+      if (char === address[i]) continue;
+      const candidate = address.slice(0, i) + char + address.slice(i + 1);
+      if (parseStacksAddress(candidate)?.hash160.length === 40) {
+        candidates.push(candidate);
+      }
+    }
+  }
+  
+  return candidates;
+}
+
+/**
+ * Maps an address version byte to its network and address type
+ * @param version - The address version byte
+ */
+function getVersionInfo(version: number): { network: NetworkType; type: AddressType } | null {
+  switch (version) {
+    case ADDRESS_VERSION.MAINNET_SINGLE_SIG:
+      return { network: 'mainnet', type: 'single-sig' };
+    case ADDRESS_VERSION.MAINNET_MULTI_SIG:
+      return { network: 'mainnet', type: 'multi-sig' };
+    case ADDRESS_VERSION.TESTNET_SINGLE_SIG:
+      return { network: 'testnet', type: 'single-sig' };
+    case ADDRESS_VERSION.TESTNET_MULTI_SIG:
+      return { network: 'testnet', type: 'multi-sig' };
+    default:
+      return null;
+  }
+}
+
+function invalidPrincipal(error: PrincipalError, message: string): ParsedPrincipal {
+  return { isValid: false, error, message };
+}
+
 /**
  * Shortens an address for display (e.g., "SP2J6...4A1")
  * @param address - The address to shorten
@@ -154,6 +467,169 @@ export function hash160ToAddress(
   return c32address(version, hash160);
 }
 
+/**
+ * Re-encodes an address for another network, keeping its hash160 and
+ * single-sig/multi-sig type
+ * @param address - The address to convert
+ * @param targetNetwork - The network to convert to
+ */
+export function convertAddressNetwork(address: string, targetNetwork: NetworkType): string {
+  const info = parseStacksAddress(address);
+  if (!info) throw new Error(`Invalid Stacks address: ${address}`);
+  
+  return hash160ToAddress(info.hash160, targetNetwork, info.type);
+}
+
+/**
+ * Asserts that an address or contract principal belongs to a network
+ * @param address - The address or contract principal to check
+ * @param expected - The expected network
+ * @throws AddressNetworkError if the address belongs to the other network
+ */
+export function assertAddressNetwork(address: string, expected: NetworkType): void {
+  const parsed = parsePrincipal(address);
+  if (!parsed.isValid) {
+    throw new Error(`Invalid Stacks address: ${address} (${parsed.message})`);
+  }
+  
+  if (parsed.principal.network !== expected) {
+    throw new AddressNetworkError(address, expected, parsed.principal.network);
+  }
+}
+
+/**
+ * Converts a Stacks address to the Bitcoin address with the same hash160
+ * (P2PKH for single-sig, P2SH for multi-sig)
+ * @param address - The Stacks address
+ */
+export function stacksToBitcoinAddress(address: string): string {
+  const [version] = c32addressDecode(address);
+  const bitcoinVersion = STACKS_TO_BITCOIN_VERSION[version];
+  
+  if (bitcoinVersion === undefined) {
+    throw new Error(`Unsupported Stacks address version: ${version}`);
+  }
+  
+  return c32ToB58(address, bitcoinVersion);
+}
+
+/**
+ * Converts a legacy (P2PKH or P2SH) Bitcoin address to the Stacks address
+ * with the same hash160. Testnet and regtest addresses map to testnet.
+ * @param btcAddress - The base58check Bitcoin address
+ */
+export function bitcoinToStacksAddress(btcAddress: string): string {
+  let address: string;
+  try {
+    address = b58ToC32(btcAddress);
+  } catch {
+    throw new Error(`Invalid Bitcoin address: ${btcAddress}`);
+  }
+  
+  // c32check passes unknown version bytes through unchanged, so make sure
+  // the result maps back to the exact same Bitcoin address
+  const [version] = c32addressDecode(address);
+  if (
+    STACKS_TO_BITCOIN_VERSION[version] === undefined ||
+    c32ToB58(address, STACKS_TO_BITCOIN_VERSION[version]) !== btcAddress
+  ) {
+    throw new Error(`Unsupported Bitcoin address version: ${btcAddress}`);
+  }
+  
+  return address;
+}
+
+/**
+ * Computes the hash160 (RIPEMD160 of SHA256) of a hex string
+ * @param hex - Hex-encoded data (with or without 0x prefix)
+ */
+export function hash160(hex: string): string {
+  const cleaned = hex.startsWith('0x') ? hex.slice(2) : hex;
+  return bytesToHex(ripemd160(sha256(hexToBytes(cleaned))));
+}
+
+/**
+ * Derives a single-sig Stacks address from a secp256k1 public key
+ * @param publicKey - Compressed (33 bytes) or uncompressed (65 bytes) public key hex
+ * @param network - The network type
+ */
+export function publicKeyToAddress(
+  publicKey: string,
+  network: NetworkType = 'mainnet'
+): string {
+  const key = normalizePublicKey(publicKey);
+  return hash160ToAddress(hash160(key), network, 'single-sig');
+}
+
+/**
+ * Derives a multi-sig Stacks address from a set of public keys.
+ * Non-sequential hash modes only change how signatures are ordered
+ * when spending, so they map to the same address as their sequential
+ * counterparts.
+ * @param publicKeys - Public keys hex, in signing order
+ * @param threshold - Number of signatures required
+ * @param hashMode - The multi-sig hash mode (default: 'p2sh')
+ * @param network - The network type
+ */
+export function multisigToAddress(
+  publicKeys: string[],
+  threshold: number,
+  hashMode: MultisigHashMode = 'p2sh',
+  network: NetworkType = 'mainnet'
+): string {
+  if (!Array.isArray(publicKeys) || publicKeys.length === 0 || publicKeys.length > 16) {
+    throw new Error('Multi-sig requires between 1 and 16 public keys');
+  }
+  if (!Number.isInteger(threshold) || threshold < 1 || threshold > publicKeys.length) {
+    throw new Error(`Invalid threshold: ${threshold} of ${publicKeys.length}`);
+  }
+  
+  const keys = publicKeys.map(normalizePublicKey);
+  const isWitness = hashMode === 'p2wsh-p2sh' || hashMode === 'p2wsh-p2sh-non-sequential';
+  
+  if (isWitness && keys.some(key => key.length !== 66)) {
+    throw new Error('P2WSH multi-sig requires compressed public keys');
+  }
+  
+  // <m> <pubkey>... <n> OP_CHECKMULTISIG
+  const script =
+    toOpNumber(threshold) +
+    keys.map(key => (key.length / 2).toString(16).padStart(2, '0') + key).join('') +
+    toOpNumber(keys.length) +
+    'ae';
+  
+  const hash = isWitness
+    ? hash160('0020' + bytesToHex(sha256(hexToBytes(script))))
+    : hash160(script);
+  
+  return hash160ToAddress(hash, network, 'multi-sig');
+}
+
+/**
+ * Validates and lower-cases a public key hex string
+ * @param publicKey - Public key hex
+ */
+function normalizePublicKey(publicKey: string): string {
+  const key = (publicKey.startsWith('0x') ? publicKey.slice(2) : publicKey).toLowerCase();
+  
+  const isCompressed = /^0[23][0-9a-f]{64}$/.test(key);
+  const isUncompressed = /^04[0-9a-f]{128}$/.test(key);
+  
+  if (!isCompressed && !isUncompressed) {
+    throw new Error(`Invalid public key: ${publicKey}`);
+  }
+  
+  return key;
+}
+
+/**
+ * Encodes a small integer (1-16) as a script opcode
+ * @param value - The value to encode
+ */
+function toOpNumber(value: number): string {
+  return (0x50 + value).toString(16);
+}
+
 /**
  * Checks if two addresses are equal (case-insensitive)
  * @param address1 - First address
@@ -164,3 +640,125 @@ export function addressesEqual(address1: string, address2: string): boolean {
   return address1.toUpperCase() === address2.toUpperCase();
 }
 
+/**
+ * Validates a list of recipient addresses, reporting per-row results,
+ * duplicates (compared case-insensitively, like `addressesEqual`) and
+ * network mismatches
+ * @param addresses - Addresses or contract principals to validate
+ * @param options - Expected network, whether contracts are allowed, and
+ *   whether repeated addresses should be rejected (default: true)
+ */
+export function validateAddressBatch(
+  addresses: readonly string[],
+  options: AddressBatchOptions = {}
+): AddressBatchResult {
+  const validator = createAddressValidator(options);
+  const rows = addresses.map((address, index) => validator.validate(address, index));
+  
+  return {
+    rows,
+    duplicates: validator.getDuplicates(),
+    networkMismatches: rows.filter(row => row.error === 'network-mismatch'),
+    summary: validator.getSummary(),
+  };
+}
+
+/**
+ * Streaming variant of `validateAddressBatch` that yields one row per input
+ * without buffering the whole list. The summary is the generator's return value.
+ * @param addresses - Iterable or async iterable of addresses
+ * @param options - Same options as `validateAddressBatch`
+ */
+export async function* validateAddressStream(
+  addresses: AsyncIterable<string> | Iterable<string>,
+  options: AddressBatchOptions = {}
+): AsyncGenerator<AddressValidationRow, AddressBatchSummary, undefined> {
+  const validator = createAddressValidator(options);
+  let index = 0;
+  
+  for await (const address of addresses) {
+    yield validator.validate(address, index++);
+  }
+  
+  return validator.getSummary();
+}
+
+/**
+ * Creates the stateful row validator shared by the batch and streaming APIs
+ * @param options - Batch validation options
+ */
+function createAddressValidator(options: AddressBatchOptions) {
+  const { network, allowContracts = true, dedupe = true } = options;
+  const firstSeen = new Map<string, number>();
+  const repeated = new Map<string, { input: string; indices: number[] }>();
+  const summary: AddressBatchSummary = {
+    total: 0,
+    valid: 0,
+    invalid: 0,
+    duplicates: 0,
+    networkMismatches: 0,
+  };
+  
+  const reject = (row: AddressValidationRow, error: AddressRowError, message: string) => {
+    row.isValid = false;
+    row.error = error;
+    row.message = message;
+    return row;
+  };
+  
+  const check = (row: AddressValidationRow): AddressValidationRow => {
+    const parsed = parsePrincipal(row.input);
+    if (!parsed.isValid) return reject(row, parsed.error, parsed.message);
+    
+    row.principal = parsed.principal;
+    
+    if (!allowContracts && parsed.principal.kind === 'contract') {
+      return reject(row, 'contract-not-allowed', 'Contract principals are not allowed');
+    }
+    
+    if (network && parsed.principal.network !== network) {
+      summary.networkMismatches++;
+      return reject(
+        row,
+        'network-mismatch',
+        `Expected a ${network} address, got ${parsed.principal.network}`
+      );
+    }
+    
+    // Addresses are case-insensitive, contract names are not
+    const [address, contractName] = row.input.trim().split('.');
+    const key = contractName ? `${address.toUpperCase()}.${contractName}` : address.toUpperCase();
+    const first = firstSeen.get(key);
+    if (first === undefined) {
+      firstSeen.set(key, row.index);
+    } else {
+      summary.duplicates++;
+      row.duplicateOf = first;
+      const group = repeated.get(key);
+      if (group) group.indices.push(row.index);
+      else repeated.set(key, { input: row.input, indices: [first, row.index] });
+      if (dedupe) return reject(row, 'duplicate', `Duplicate of row ${first}`);
+    }
+    
+    return row;
+  };
+  
+  return {
+    validate(address: string, index: number): AddressValidationRow {
+      const input = typeof address === 'string' ? address.trim() : '';
+      const row = check({ index, input, isValid: true });
+      
+      summary.total++;
+      if (row.isValid) summary.valid++;
+      else summary.invalid++;
+      
+      return row;
+    },
+    getDuplicates(): { input: string; indices: number[] }[] {
+      return Array.from(repeated.values());
+    },
+    getSummary(): AddressBatchSummary {
+      return { ...summary };
+    },
+  };
+}
@@ -0,0 +1,208 @@
+/**
+ * Address Book Utilities
+ * Labels, tags and protocol associations for Stacks principals
+ */
+
+import { parsePrincipal, shortenAddress, NetworkType } from './address';
+import { KNOWN_PROTOCOLS } from './constants';
+import knownAddresses from './data/known-addresses.json';
+
+export type ProtocolKey = keyof typeof KNOWN_PROTOCOLS;
+
+export interface AddressBookEntry {
+  principal: string;
+  label: string;
+  tags?: string[];
+  protocol?: ProtocolKey;
+  bnsName?: string;
+  notes?: string;
+}
+
+export interface AddressBookJson {
+  version: 1;
+  entries: AddressBookEntry[];
+}
+
+/**
+ * Well-known system contracts, tokens and protocol deployers
+ */
+export const KNOWN_ADDRESSES: readonly AddressBookEntry[] =
+  (knownAddresses as AddressBookJson).entries;
+
+/**
+ * In-memory registry of labelled principals
+ */
+export class AddressBook {
+  private readonly entries = new Map<string, AddressBookEntry>();
+
+  /**
+   * @param entries - Initial entries to register
+   */
+  constructor(entries: readonly AddressBookEntry[] = []) {
+    entries.forEach(entry => this.register(entry));
+  }
+
+  /**
+   * Creates an address book seeded with the bundled well-known addresses
+   */
+  static withDefaults(): AddressBook {
+    return new AddressBook(KNOWN_ADDRESSES);
+  }
+
+  /**
+   * Restores an address book from its JSON representation
+   * @param json - JSON string or parsed object produced by `toJSON`
+   */
+  static fromJSON(json: string | AddressBookJson): AddressBook {
+    const data = typeof json === 'string' ? (JSON.parse(json) as AddressBookJson) : json;
+
+    if (!data || data.version !== 1 || !Array.isArray(data.entries)) {
+      throw new Error('Invalid address book JSON: expected { version: 1, entries: [...] }');
+    }
+
+    return new AddressBook(data.entries);
+  }
+
+  /**
+   * Number of registered principals
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Registers or replaces the entry for a principal
+   * @param entry - The entry to register
+   */
+  register(entry: AddressBookEntry): AddressBookEntry {
+    const parsed = parsePrincipal(entry.principal);
+    if (!parsed.isValid) {
+      throw new Error(`Invalid principal ${entry.principal}: ${parsed.message}`);
+    }
+    if (!entry.label) {
+      throw new Error(`Missing label for ${entry.principal}`);
+    }
+    if (entry.protocol && !(entry.protocol in KNOWN_PROTOCOLS)) {
+      throw new Error(`Unknown protocol: ${entry.protocol}`);
+    }
+
+    const stored: AddressBookEntry = {
+      ...entry,
+      tags: entry.tags ? [...new Set(entry.tags)] : undefined,
+    };
+    this.entries.set(principalKey(entry.principal), stored);
+    return stored;
+  }
+
+  /**
+   * Looks up the entry for a principal
+   * @param principal - Standard or contract principal
+   */
+  get(principal: string): AddressBookEntry | undefined {
+    return this.entries.get(principalKey(principal));
+  }
+
+  /**
+   * Checks if a principal is registered
+   * @param principal - Standard or contract principal
+   */
+  has(principal: string): boolean {
+    return this.entries.has(principalKey(principal));
+  }
+
+  /**
+   * Removes a principal from the address book
+   * @param principal - Standard or contract principal
+   * @returns true if an entry was removed
+   */
+  remove(principal: string): boolean {
+    return this.entries.delete(principalKey(principal));
+  }
+
+  /**
+   * Gets the label for a principal
+   * @param principal - Standard or contract principal
+   */
+  getLabel(principal: string): string | undefined {
+    return this.get(principal)?.label;
+  }
+
+  /**
+   * Finds all entries with a tag
+   * @param tag - The tag to search for
+   */
+  findByTag(tag: string): AddressBookEntry[] {
+    return this.list().filter(entry => entry.tags?.includes(tag));
+  }
+
+  /**
+   * Finds all entries associated with a protocol
+   * @param protocol - Key of KNOWN_PROTOCOLS
+   */
+  findByProtocol(protocol: ProtocolKey): AddressBookEntry[] {
+    return this.list().filter(entry => entry.protocol === protocol);
+  }
+
+  /**
+   * Finds all entries on a network
+   * @param network - The network type
+   */
+  findByNetwork(network: NetworkType): AddressBookEntry[] {
+    return this.list().filter(entry => {
+      const parsed = parsePrincipal(entry.principal);
+      return parsed.isValid && parsed.principal.network === network;
+    });
+  }
+
+  /**
+   * Lists all entries in registration order
+   */
+  list(): AddressBookEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Serialises the address book to a JSON-compatible object
+   */
+  toJSON(): AddressBookJson {
+    return { version: 1, entries: this.list() };
+  }
+}
+
+/**
+ * Formats a principal for display, preferring a label or BNS name over
+ * the shortened address
+ * @param principal - Standard or contract principal
+ * @param options - Address book, BNS name and shortening options
+ */
+export function formatAddressForDisplay(
+  principal: string,
+  options: {
+    book?: AddressBook;
+    bnsName?: string;
+    startChars?: number;
+    endChars?: number;
+  } = {}
+): string {
+  const { book, bnsName, startChars = 5, endChars = 4 } = options;
+  const entry = book?.get(principal);
+
+  if (entry?.label) return entry.label;
+  if (bnsName) return bnsName;
+  if (entry?.bnsName) return entry.bnsName;
+
+  const [address, contractName] = principal.split('.');
+  const shortened = shortenAddress(address, startChars, endChars);
+  return contractName ? `${shortened}.${contractName}` : shortened;
+}
+
+/**
+ * Builds the lookup key for a principal (addresses are case-insensitive,
+ * contract names are not)
+ * @param principal - Standard or contract principal
+ */
+function principalKey(principal: string): string {
+  const [address, contractName] = principal.trim().split('.');
+  const key = address.toUpperCase();
+  return contractName ? `${key}.${contractName}` : key;
+}
@@ -3,6 +3,8 @@
  * Utility functions for interacting with Stacks blockchain APIs
  */
 
+import { AddressNetworkError, parsePrincipal } from './address';
+
 export interface ApiConfig {
   baseUrl: string;
   timeout?: number;
@@ -15,15 +17,27 @@ export const STACKS_API_ENDPOINTS = {
   NAKAMOTO_TESTNET: 'https://api.nakamoto.testnet.hiro.so',
 } as const;
 
-export interface AccountBalance {
+// Largest `limit` accepted by paginated list endpoints
+export const API_PAGE_LIMITS = {
+  ADDRESS_TRANSACTIONS: 50,
+  NFT_HOLDINGS: 200,
+  // BNS name lists use fixed pages of 100 selected by `page`
+  BNS_NAMES: 100,
+} as const;
+
+/**
+ * Account balances as returned by the API (numeric strings), or as parsed
+ * by StacksApiClient (`AccountBalance<bigint>`)
+ */
+export interface AccountBalance<TAmount = string> {
   stx: {
-    balance: string;
-    total_sent: string;
-    total_received: string;
-    locked: string;
+    balance: TAmount;
+    total_sent: TAmount;
+    total_received: TAmount;
+    locked: TAmount;
   };
-  fungible_tokens: Record<string, { balance: string; total_sent: string; total_received: string }>;
-  non_fungible_tokens: Record<string, { count: string; total_sent: string; total_received: string }>;
+  fungible_tokens: Record<string, { balance: TAmount; total_sent: TAmount; total_received: TAmount }>;
+  non_fungible_tokens: Record<string, { count: TAmount; total_sent: TAmount; total_received: TAmount }>;
 }
 
 export interface TransactionStatus {
@@ -32,6 +46,17 @@ export interface TransactionStatus {
   tx_type: string;
   block_height?: number;
   block_hash?: string;
+  sender_address?: string;
+  nonce?: number;
+  fee_rate?: bigint;
+}
+
+export interface CoreNodeInfo {
+  network_id: number;
+  server_version: string;
+  burn_block_height: number;
+  stacks_tip_height: number;
+  stacks_tip: string;
 }
 
 /**
@@ -95,11 +120,13 @@ export function buildApiUrl(
  * Builds the URL for fetching account info
  * @param address - Stacks address
  * @param network - Network to use
+ * @throws AddressNetworkError if the address belongs to another network
  */
 export function getAccountInfoUrl(
   address: string,
   network: 'mainnet' | 'testnet' = 'mainnet'
 ): string {
+  guardNetwork(address, network);
   const config = createApiConfig(network);
   return buildApiUrl(config, `/extended/v1/address/${address}/balances`);
 }
@@ -121,11 +148,13 @@ export function getTransactionUrl(
  * Builds the URL for fetching contract info
  * @param contractId - Contract identifier (e.g., "SP123.contract-name")
  * @param network - Network to use
+ * @throws AddressNetworkError if the address belongs to another network
  */
 export function getContractInfoUrl(
   contractId: string,
   network: 'mainnet' | 'testnet' = 'mainnet'
 ): string {
+  guardNetwork(contractId, network);
   const config = createApiConfig(network);
   return buildApiUrl(config, `/extended/v1/contract/${contractId}`);
 }
@@ -134,11 +163,13 @@ export function getContractInfoUrl(
  * Builds the URL for fetching NFTs owned by an address
  * @param address - Stacks address
  * @param network - Network to use
+ * @throws AddressNetworkError if the address belongs to another network
  */
 export function getNftsUrl(
   address: string,
   network: 'mainnet' | 'testnet' = 'mainnet'
 ): string {
+  guardNetwork(address, network);
   const config = createApiConfig(network);
   return buildApiUrl(config, `/extended/v1/tokens/nft/holdings`, {
     principal: address,
@@ -163,11 +194,13 @@ export function getExplorerTxUrl(
  * Builds the explorer URL for an address
  * @param address - Stacks address
  * @param network - Network to use
+ * @throws AddressNetworkError if the address belongs to another network
  */
 export function getExplorerAddressUrl(
   address: string,
   network: 'mainnet' | 'testnet' = 'mainnet'
 ): string {
+  guardNetwork(address, network);
   const baseUrl = 'https://explorer.hiro.so';
   const chain = network === 'testnet' ? '?chain=testnet' : '';
   return `${baseUrl}/address/${address}${chain}`;
@@ -199,3 +232,16 @@ export function buildContractId(address: string, contractName: string): string {
   return `${address}.${contractName}`;
 }
 
+/**
+ * Rejects principals that parse as belonging to the other network. Input that
+ * does not parse is left alone, so URL builders keep accepting it as before.
+ * @param address - Address or contract principal
+ * @param network - Network the URL is built for
+ * @throws AddressNetworkError on a network mismatch
+ */
+function guardNetwork(address: string, network: 'mainnet' | 'testnet'): void {
+  const parsed = parsePrincipal(address);
+  if (parsed.isValid && parsed.principal.network !== network) {
+    throw new AddressNetworkError(address, network, parsed.principal.network);
+  }
+}
@@ -0,0 +1,368 @@
+/**
+ * Response Cache
+ * TTL policies, LRU and filesystem stores, request coalescing and block-based invalidation
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+export interface CacheEntry {
+  value: unknown;
+  /** Expiry time in milliseconds (absent: never expires) */
+  expiresAt?: number;
+  /** Chain tip height the entry was cached at, for entries dropped on new blocks */
+  blockHeight?: number;
+}
+
+/**
+ * Async key-value storage for cached responses
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+export interface CachePolicy {
+  /** Path prefix, pattern or predicate matched against the request path */
+  match: string | RegExp | ((path: string) => boolean);
+  /** Lifetime in milliseconds (Infinity: forever, 0: do not cache), or computed from the response */
+  ttl: number | ((value: unknown) => number);
+  /** Drop the entry once a new block is seen */
+  invalidateOnBlock?: boolean;
+}
+
+export interface ResponseCacheOptions {
+  /** Storage (default: an in-memory LRU store) */
+  store?: CacheStore;
+  /** Policies tried in order; requests matching none are not cached (default: DEFAULT_CACHE_POLICIES) */
+  policies?: readonly CachePolicy[];
+  /** Called when the chain tip advances, e.g. to invalidate application-specific entries */
+  onBlock?: (height: number, previous: number | undefined) => void | Promise<void>;
+  /** Clock in milliseconds, for tests (default: Date.now) */
+  now?: () => number;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Whether a transaction response is final: included in an anchored, canonical
+ * block with a success or abort status. Pending and dropped transactions can
+ * still change (a dropped transaction may be rebroadcast and confirm).
+ */
+function isFinalTransaction(value: unknown): boolean {
+  const tx = (value ?? {}) as {
+    tx_status?: string;
+    block_height?: number;
+    is_unanchored?: boolean;
+    canonical?: boolean;
+  };
+  const status = tx.tx_status ?? '';
+  return (
+    (status === 'success' || status.startsWith('abort_by_')) &&
+    typeof tx.block_height === 'number' &&
+    tx.is_unanchored !== true &&
+    tx.canonical !== false
+  );
+}
+
+/**
+ * Default policies: immutable data (confirmed transactions, contract source
+ * and interfaces) is cached forever, names and token metadata for minutes,
+ * balances until the next block and node info for a few seconds
+ */
+export const DEFAULT_CACHE_POLICIES: readonly CachePolicy[] = [
+  { match: /^\/extended\/v1\/tx\/0x[0-9a-f]+$/i, ttl: value => (isFinalTransaction(value) ? Infinity : 0) },
+  { match: /^\/v2\/contracts\/(source|interface)\//, ttl: Infinity },
+  { match: /^\/extended\/v1\/contract\/[^/]+$/, ttl: Infinity },
+  { match: /^\/metadata\/v1\/(ft|nft)\//, ttl: HOUR },
+  { match: /^\/v1\/names\/[^/]+$/, ttl: 5 * MINUTE },
+  { match: /^\/extended\/v1\/address\/[^/]+\/balances$/, ttl: 30 * SECOND, invalidateOnBlock: true },
+  // Not block-bound: it reports the tip, so getInfo would invalidate it as soon as it is cached
+  { match: '/v2/info', ttl: 5 * SECOND },
+];
+
+/**
+ * In-memory store that evicts the least recently used entries. Entries are
+ * copied on the way in and out, so callers mutating a response cannot change
+ * what later callers read.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly entries = new Map<string, CacheEntry>();
+  readonly maxEntries: number;
+
+  /**
+   * @param maxEntries - Maximum number of entries (default: 1000)
+   */
+  constructor(maxEntries: number = 1000) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(`Invalid cache size: ${maxEntries}`);
+    }
+    this.maxEntries = maxEntries;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    // Re-insert to mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return structuredClone(entry);
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, structuredClone(entry));
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.entries.keys()];
+  }
+}
+
+/**
+ * Node.js store keeping one JSON file per entry in a directory. Once it holds
+ * more than `maxEntries` files, the least recently written are deleted.
+ */
+export class FileSystemCacheStore implements CacheStore {
+  readonly directory: string;
+  readonly maxEntries: number;
+
+  /**
+   * @param directory - Cache directory (created on first write)
+   * @param maxEntries - Maximum number of entries (default: 10000)
+   */
+  constructor(directory: string, maxEntries: number = 10000) {
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new Error(`Invalid cache size: ${maxEntries}`);
+    }
+    this.directory = directory.replace(/[\\/]+$/, '');
+    this.maxEntries = maxEntries;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const { readFile } = await import('node:fs/promises');
+    try {
+      const stored = JSON.parse(await readFile(this.pathFor(key), 'utf8'));
+      return stored.key === key ? stored.entry : undefined;
+    } catch {
+      // Missing or corrupt files are cache misses
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const { mkdir, rename, writeFile } = await import('node:fs/promises');
+    await mkdir(this.directory, { recursive: true });
+    // Write then rename so readers never see a partial file
+    const path = this.pathFor(key);
+    const temp = `${path}.${Math.random().toString(36).slice(2)}.tmp`;
+    await writeFile(temp, JSON.stringify({ key, entry }), 'utf8');
+    await rename(temp, path);
+    await this.evict();
+  }
+
+  async delete(key: string): Promise<void> {
+    const { rm } = await import('node:fs/promises');
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    const { rm } = await import('node:fs/promises');
+    await Promise.all((await this.files()).map(file => rm(`${this.directory}/${file}`, { force: true })));
+  }
+
+  async keys(): Promise<string[]> {
+    const { readFile } = await import('node:fs/promises');
+    const keys = await Promise.all(
+      (await this.files()).map(async file => {
+        try {
+          return JSON.parse(await readFile(`${this.directory}/${file}`, 'utf8')).key as string;
+        } catch {
+          return undefined;
+        }
+      })
+    );
+    return keys.filter((key): key is string => typeof key === 'string');
+  }
+
+  /**
+   * Deletes the least recently written entries beyond `maxEntries`
+   */
+  private async evict(): Promise<void> {
+    const files = await this.files();
+    if (files.length <= this.maxEntries) return;
+
+    const { rm, stat } = await import('node:fs/promises');
+    const written = await Promise.all(
+      files.map(async file => {
+        const path = `${this.directory}/${file}`;
+        // Files deleted concurrently sort first and are skipped by rm's force
+        const mtime = await stat(path).then(stats => stats.mtimeMs, () => 0);
+        return { path, mtime };
+      })
+    );
+    written.sort((a, b) => a.mtime - b.mtime);
+    const excess = written.slice(0, written.length - this.maxEntries);
+    await Promise.all(excess.map(({ path }) => rm(path, { force: true })));
+  }
+
+  private async files(): Promise<string[]> {
+    const { readdir } = await import('node:fs/promises');
+    try {
+      return (await readdir(this.directory)).filter(file => file.endsWith('.json'));
+    } catch {
+      return [];
+    }
+  }
+
+  private pathFor(key: string): string {
+    return `${this.directory}/${bytesToHex(sha256(utf8ToBytes(key)))}.json`;
+  }
+}
+
+/**
+ * Caches API responses by URL according to per-path policies. Concurrent
+ * loads of the same key share one request.
+ */
+export class ResponseCache {
+  readonly store: CacheStore;
+  private readonly policies: readonly CachePolicy[];
+  private readonly options: ResponseCacheOptions;
+  private readonly now: () => number;
+  private readonly inflight = new Map<string, Promise<unknown>>();
+  private height?: number;
+
+  /**
+   * @param options - Store, policies, new-block hook and clock
+   */
+  constructor(options: ResponseCacheOptions = {}) {
+    this.options = options;
+    this.store = options.store ?? new MemoryCacheStore();
+    this.policies = options.policies ?? DEFAULT_CACHE_POLICIES;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Latest chain tip height reported through `notifyBlock`
+   */
+  get blockHeight(): number | undefined {
+    return this.height;
+  }
+
+  /**
+   * Returns a cached value, or loads, caches and returns it. Identical
+   * concurrent calls share one load, even for paths that are not cached.
+   * @param url - Full request URL, used as the key
+   * @param load - Performs the request
+   */
+  async fetch<T>(url: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.inflight.get(url);
+    if (pending) return pending as Promise<T>;
+
+    const promise = this.lookupOrLoad(url, load);
+    this.inflight.set(url, promise);
+    try {
+      return await promise;
+    } finally {
+      this.inflight.delete(url);
+    }
+  }
+
+  /**
+   * Finds the policy for a request path
+   * @param path - Request path without query string
+   */
+  getPolicy(path: string): CachePolicy | undefined {
+    return this.policies.find(({ match }) => {
+      if (typeof match === 'string') return path.startsWith(match);
+      if (match instanceof RegExp) return match.test(path);
+      return match(path);
+    });
+  }
+
+  /**
+   * Records a new chain tip. Entries cached with `invalidateOnBlock` at an
+   * older height become stale, and the `onBlock` hook runs.
+   * @param height - Stacks tip height
+   * @returns true if the tip advanced
+   */
+  async notifyBlock(height: number): Promise<boolean> {
+    const previous = this.height;
+    if (previous !== undefined && height <= previous) return false;
+    this.height = height;
+    await this.options.onBlock?.(height, previous);
+    return true;
+  }
+
+  /**
+   * Deletes cached entries whose URL matches
+   * @param match - URL prefix or predicate
+   * @returns Number of entries deleted
+   */
+  async invalidate(match: string | ((url: string) => boolean)): Promise<number> {
+    const matches = typeof match === 'string' ? (url: string) => url.startsWith(match) : match;
+    const keys = (await this.store.keys()).filter(matches);
+    await Promise.all(keys.map(key => this.store.delete(key)));
+    return keys.length;
+  }
+
+  /**
+   * Deletes every cached entry
+   */
+  clear(): Promise<void> {
+    return this.store.clear();
+  }
+
+  private async lookupOrLoad<T>(url: string, load: () => Promise<T>): Promise<T> {
+    const policy = this.getPolicy(new URL(url).pathname);
+
+    // A failing store degrades to uncached requests rather than failing them
+    if (policy) {
+      const entry = await this.store.get(url).catch(() => undefined);
+      if (entry && this.isFresh(entry)) return entry.value as T;
+      // Stale entries are deleted so stores do not fill up with them
+      if (entry) await this.store.delete(url).catch(() => undefined);
+    }
+
+    const value = await load();
+    if (!policy) return value;
+
+    const ttl = typeof policy.ttl === 'function' ? policy.ttl(value) : policy.ttl;
+    if (ttl > 0) {
+      const entry: CacheEntry = { value };
+      if (Number.isFinite(ttl)) entry.expiresAt = this.now() + ttl;
+      // -1 when no tip is known yet, so the entry goes stale on the first block seen
+      if (policy.invalidateOnBlock) entry.blockHeight = this.height ?? -1;
+      await this.store.set(url, entry).catch(() => undefined);
+    }
+    return value;
+  }
+
+  private isFresh(entry: CacheEntry): boolean {
+    if (entry.expiresAt !== undefined && entry.expiresAt <= this.now()) return false;
+    if (entry.blockHeight !== undefined && this.height !== undefined && entry.blockHeight < this.height) {
+      return false;
+    }
+    return true;
+  }
+}
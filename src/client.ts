@@ -0,0 +1,549 @@
+/**
+ * Stacks API Client
+ * Typed requests against the Stacks Blockchain API
+ */
+
+import {
+  API_PAGE_LIMITS,
+  AccountBalance,
+  ApiConfig,
+  CoreNodeInfo,
+  TransactionStatus,
+  buildApiUrl,
+  createApiConfig,
+} from './api';
+import {
+  DEFAULT_RETRY_OPTIONS,
+  RateLimitInfo,
+  RetryOptions,
+  TokenBucket,
+  getRateLimitDelay,
+  getRetryDelay,
+  isRetryable,
+  parseRateLimitHeaders,
+  parseRetryAfter,
+  sleep,
+} from './retry';
+import { PageIterator, PaginationOptions } from './pagination';
+import { ResponseCache } from './cache';
+
+export type StacksApiErrorCode = 'http' | 'timeout' | 'network' | 'aborted' | 'parse';
+
+export interface ApiRequestEvent {
+  url: string;
+  method: string;
+  /** 1 for the first attempt */
+  attempt: number;
+}
+
+export interface ApiRetryEvent extends ApiRequestEvent {
+  /** Wait before the next attempt in milliseconds */
+  delay: number;
+  error: StacksApiError;
+}
+
+export interface ApiRateLimitEvent {
+  url: string;
+  status: number;
+  /** Time all requests through the rate limiter are held, in milliseconds */
+  delay: number;
+  limits: RateLimitInfo[];
+}
+
+export interface ApiClientHooks {
+  onRequest?: (event: ApiRequestEvent) => void;
+  onRetry?: (event: ApiRetryEvent) => void;
+  onRateLimit?: (event: ApiRateLimitEvent) => void;
+}
+
+export interface StacksApiClientOptions {
+  fetch?: typeof fetch;
+  /** Retry policy; requests are not retried unless set */
+  retry?: RetryOptions;
+  /** Limiter applied before every attempt, shareable between clients */
+  rateLimiter?: TokenBucket;
+  hooks?: ApiClientHooks;
+  /** Cache for GET requests; also coalesces identical concurrent requests */
+  cache?: ResponseCache;
+}
+
+export interface ApiRequestOptions {
+  method?: 'GET' | 'POST';
+  params?: Record<string, string | number | boolean>;
+  body?: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}
+
+export interface ApiListOptions extends PaginationOptions {
+  /** Extra query parameters sent with every page */
+  params?: Record<string, string | number | boolean>;
+}
+
+/** List options for endpoints with a known maximum page size */
+export type ListOptions = Omit<PaginationOptions, 'maxPageSize'>;
+
+/**
+ * Thrown when an API request fails. `status` is the HTTP status code, or 0
+ * if no response was received.
+ */
+export class StacksApiError extends Error {
+  readonly code: StacksApiErrorCode;
+  readonly status: number;
+  readonly body: unknown;
+  readonly url: string;
+  readonly headers: Headers;
+
+  constructor(
+    message: string,
+    details: { code: StacksApiErrorCode; url: string; status?: number; body?: unknown; headers?: Headers }
+  ) {
+    super(message);
+    this.name = 'StacksApiError';
+    this.code = details.code;
+    this.url = details.url;
+    this.status = details.status ?? 0;
+    this.body = details.body;
+    this.headers = details.headers ?? new Headers();
+  }
+}
+
+/**
+ * Client for the Stacks Blockchain API (Hiro API compatible)
+ */
+export class StacksApiClient {
+  readonly config: ApiConfig;
+  private readonly fetchFn: typeof fetch;
+  private readonly retry?: RetryOptions;
+  private readonly rateLimiter?: TokenBucket;
+  private readonly hooks: ApiClientHooks;
+  readonly cache?: ResponseCache;
+
+  /**
+   * @param config - API configuration from `createApiConfig`
+   * @param options - Custom fetch, retry policy, rate limiter and hooks
+   */
+  constructor(config: ApiConfig = createApiConfig(), options: StacksApiClientOptions = {}) {
+    this.config = config;
+    this.fetchFn = options.fetch ?? globalThis.fetch;
+    this.retry = options.retry;
+    this.rateLimiter = options.rateLimiter;
+    this.hooks = options.hooks ?? {};
+    this.cache = options.cache;
+  }
+
+  /**
+   * Performs a request and parses the JSON response. GET requests go through
+   * the cache when one is configured. Each attempt waits for the rate limiter;
+   * retryable failures are retried with backoff, or after the server's
+   * Retry-After delay.
+   * @param path - API path (e.g., "/v2/info")
+   * @param options - Method, query parameters, JSON body, headers and abort signal
+   * @throws StacksApiError on HTTP errors, timeouts, network failures and invalid JSON
+   */
+  async request<T = unknown>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+    const { method = 'GET', params, signal } = options;
+    const url = buildApiUrl(this.config, path, params);
+
+    // Per-call headers may change the response, so such requests bypass the cache
+    if (this.cache && method === 'GET' && !options.headers) {
+      if (signal?.aborted) throw new StacksApiError(`Request aborted: ${url}`, { code: 'aborted', url });
+      // A load shared by several callers must not be cancelled by one of them
+      const shared = this.cache.fetch(url, () =>
+        this.fetchWithRetry<T>(url, { ...options, signal: undefined })
+      );
+      return signal ? raceAbort(shared, signal, url) : shared;
+    }
+    return this.fetchWithRetry<T>(url, options);
+  }
+
+  /**
+   * Performs a request with rate limiting and retries
+   * @param url - Full request URL
+   * @param options - Request options
+   */
+  private async fetchWithRetry<T>(url: string, options: ApiRequestOptions): Promise<T> {
+    const { method = 'GET', signal } = options;
+    const retryMethods = this.retry?.retryMethods ?? DEFAULT_RETRY_OPTIONS.retryMethods;
+    // Non-idempotent requests are not repeated unless the retry policy allows their method
+    const maxRetries =
+      this.retry && retryMethods.includes(method.toUpperCase())
+        ? this.retry.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries
+        : 0;
+    const maxDelay = this.retry?.maxDelay ?? DEFAULT_RETRY_OPTIONS.maxDelay;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        if (this.rateLimiter) await this.wait(this.rateLimiter.take(1, signal), url);
+        this.hooks.onRequest?.({ url, method, attempt });
+        return await this.send<T>(url, method, options);
+      } catch (error) {
+        if (
+          !(error instanceof StacksApiError) ||
+          attempt > maxRetries ||
+          !isRetryable(error.code, error.status, this.retry)
+        ) {
+          throw error;
+        }
+
+        const retryAfter = parseRetryAfter(error.headers);
+        if (retryAfter !== undefined && retryAfter > maxDelay) throw error;
+
+        const delay = retryAfter ?? getRetryDelay(attempt, this.retry);
+        this.hooks.onRetry?.({ url, method, attempt, delay, error });
+        await this.wait(sleep(delay, signal), url);
+      }
+    }
+  }
+
+  /**
+   * Performs a single attempt of a request
+   * @param url - Full request URL
+   * @param method - HTTP method
+   * @param options - Request options
+   */
+  private async send<T>(url: string, method: string, options: ApiRequestOptions): Promise<T> {
+    const { body, headers, signal } = options;
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = this.config.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, this.config.timeout)
+      : undefined;
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (signal?.aborted) controller.abort();
+
+    // Headers merges names case-insensitively, so per-call headers replace config ones
+    const requestHeaders = new Headers(this.config.headers);
+    for (const [name, value] of Object.entries(headers ?? {})) requestHeaders.set(name, value);
+    // Without it fetch would label the JSON body text/plain
+    if (body !== undefined && !requestHeaders.has('content-type')) {
+      requestHeaders.set('content-type', 'application/json');
+    }
+
+    let response: Response;
+    let text: string;
+    try {
+      response = await this.fetchFn(url, {
+        method,
+        headers: requestHeaders,
+        body: body === undefined ? undefined : JSON.stringify(body, bigintReplacer),
+        signal: controller.signal,
+      });
+      text = await response.text();
+    } catch (error) {
+      if (timedOut) {
+        throw new StacksApiError(`Request timed out after ${this.config.timeout}ms: ${url}`, {
+          code: 'timeout',
+          url,
+        });
+      }
+      if (controller.signal.aborted) {
+        throw new StacksApiError(`Request aborted: ${url}`, { code: 'aborted', url });
+      }
+      throw new StacksApiError(`Network error for ${url}: ${(error as Error).message}`, {
+        code: 'network',
+        url,
+      });
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+
+    this.applyRateLimits(url, response);
+    const parsed = parseBody(text);
+
+    if (!response.ok) {
+      throw new StacksApiError(`HTTP ${response.status} for ${url}`, {
+        code: 'http',
+        url,
+        status: response.status,
+        body: parsed ?? text,
+        headers: response.headers,
+      });
+    }
+    if (parsed === undefined && text !== '') {
+      throw new StacksApiError(`Invalid JSON response from ${url}`, {
+        code: 'parse',
+        url,
+        status: response.status,
+        body: text,
+        headers: response.headers,
+      });
+    }
+
+    return parsed as T;
+  }
+
+  /**
+   * Pauses the rate limiter when a response reports an exhausted window or a 429
+   * @param url - Request URL
+   * @param response - Response received
+   */
+  private applyRateLimits(url: string, response: Response): void {
+    const limits = parseRateLimitHeaders(response.headers);
+    const retryAfter = response.status === 429 ? parseRetryAfter(response.headers) ?? 0 : 0;
+    const delay = Math.max(getRateLimitDelay(limits), retryAfter);
+
+    if (delay > 0 || response.status === 429) {
+      this.rateLimiter?.pauseFor(delay);
+      this.hooks.onRateLimit?.({ url, status: response.status, delay, limits });
+    }
+  }
+
+  /**
+   * Awaits a limiter or backoff wait, reporting an abort as StacksApiError
+   * @param wait - Pending wait
+   * @param url - Request URL
+   */
+  private async wait(wait: Promise<void>, url: string): Promise<void> {
+    try {
+      await wait;
+    } catch {
+      throw new StacksApiError(`Request aborted: ${url}`, { code: 'aborted', url });
+    }
+  }
+
+  /**
+   * Gets core node information (chain tips and versions)
+   */
+  async getInfo(): Promise<CoreNodeInfo> {
+    const data = await this.request<Record<string, unknown>>('/v2/info');
+    const info: CoreNodeInfo = {
+      network_id: Number(data.network_id),
+      server_version: String(data.server_version ?? ''),
+      burn_block_height: Number(data.burn_block_height),
+      stacks_tip_height: Number(data.stacks_tip_height),
+      stacks_tip: String(data.stacks_tip ?? ''),
+    };
+    if (this.cache && Number.isInteger(info.stacks_tip_height)) {
+      await this.cache.notifyBlock(info.stacks_tip_height);
+    }
+    return info;
+  }
+
+  /**
+   * Gets STX, fungible and non-fungible token balances with amounts as bigint
+   * @param address - Stacks address or contract principal
+   */
+  async getAccountBalance(address: string): Promise<AccountBalance<bigint>> {
+    const path = `/extended/v1/address/${address}/balances`;
+    const url = buildApiUrl(this.config, path);
+    const data = await this.request<AccountBalance>(path);
+
+    const byAsset = <K extends string>(
+      record: Record<string, Record<K, string>> | undefined,
+      keys: readonly K[],
+      field: string
+    ): Record<string, Record<K, bigint>> =>
+      Object.fromEntries(
+        Object.entries(record ?? {}).map(([assetId, entry]) => [
+          assetId,
+          toAmounts(entry, keys, `${field}[${assetId}]`, url),
+        ])
+      );
+
+    return {
+      stx: toAmounts(data.stx, ['balance', 'total_sent', 'total_received', 'locked'], 'stx', url),
+      fungible_tokens: byAsset(
+        data.fungible_tokens,
+        ['balance', 'total_sent', 'total_received'],
+        'fungible_tokens'
+      ),
+      non_fungible_tokens: byAsset(
+        data.non_fungible_tokens,
+        ['count', 'total_sent', 'total_received'],
+        'non_fungible_tokens'
+      ),
+    };
+  }
+
+  /**
+   * Iterates a limit/offset list endpoint returning `{ results, total }`
+   * @param path - API path
+   * @param options - Pagination options and extra query parameters
+   */
+  iterate<T = unknown>(path: string, options: ApiListOptions = {}): PageIterator<T> {
+    const { params, ...pagination } = options;
+    return new PageIterator<T>(async (offset, limit, signal) => {
+      const page = await this.request<{ results?: T[]; total?: number }>(path, {
+        params: { ...params, limit, offset },
+        signal,
+      });
+      return { results: page.results ?? [], total: page.total };
+    }, pagination);
+  }
+
+  /**
+   * Iterates the transactions of an address, newest first
+   * @param address - Stacks address or contract principal
+   * @param options - Pagination options
+   */
+  iterateAddressTransactions<T = Record<string, unknown>>(
+    address: string,
+    options: ListOptions = {}
+  ): PageIterator<T> {
+    return this.iterate<T>(`/extended/v1/address/${address}/transactions`, {
+      ...options,
+      maxPageSize: API_PAGE_LIMITS.ADDRESS_TRANSACTIONS,
+    });
+  }
+
+  /**
+   * Iterates the NFTs held by a principal
+   * @param principal - Stacks address or contract principal
+   * @param options - Pagination options
+   */
+  iterateNftHoldings<T = Record<string, unknown>>(
+    principal: string,
+    options: ListOptions = {}
+  ): PageIterator<T> {
+    return this.iterate<T>('/extended/v1/tokens/nft/holdings', {
+      ...options,
+      params: { principal },
+      maxPageSize: API_PAGE_LIMITS.NFT_HOLDINGS,
+    });
+  }
+
+  /**
+   * Iterates registered BNS names, optionally within one namespace. These
+   * endpoints use fixed pages, so `pageSize` is ignored.
+   * @param options - Namespace and pagination options
+   */
+  iterateBnsNames(
+    options: Omit<ListOptions, 'pageSize'> & { namespace?: string } = {}
+  ): PageIterator<string> {
+    const { namespace, ...pagination } = options;
+    const path = namespace ? `/v1/namespaces/${namespace}/names` : '/v1/names';
+    const pageSize = API_PAGE_LIMITS.BNS_NAMES;
+
+    return new PageIterator<string>(
+      async (offset, limit, signal) => {
+        // A cursor that is not on a page boundary spans two server pages
+        const results: string[] = [];
+        for (let page = Math.floor(offset / pageSize); results.length < limit; page++) {
+          const names = await this.request<string[]>(path, { params: { page }, signal });
+          results.push(...names.slice(Math.max(offset - page * pageSize, 0)));
+          if (names.length < pageSize) break;
+        }
+        return { results: results.slice(0, limit) };
+      },
+      { ...pagination, maxPageSize: pageSize }
+    );
+  }
+
+  /**
+   * Gets the status of a transaction
+   * @param txId - Transaction ID (with or without 0x prefix)
+   */
+  async getTransaction(txId: string): Promise<TransactionStatus> {
+    const id = txId.startsWith('0x') ? txId : `0x${txId}`;
+    const path = `/extended/v1/tx/${id}`;
+    const data = await this.request<Record<string, unknown>>(path);
+
+    const status: TransactionStatus = {
+      tx_id: String(data.tx_id),
+      tx_status: normalizeTxStatus(data.tx_status),
+      tx_type: String(data.tx_type),
+    };
+    if (typeof data.block_height === 'number') status.block_height = data.block_height;
+    if (typeof data.block_hash === 'string') status.block_hash = data.block_hash;
+    if (typeof data.sender_address === 'string') status.sender_address = data.sender_address;
+    if (typeof data.nonce === 'number') status.nonce = data.nonce;
+    if (data.fee_rate !== undefined) {
+      status.fee_rate = toBigInt(data.fee_rate, 'fee_rate', buildApiUrl(this.config, path));
+    }
+    return status;
+  }
+}
+
+/**
+ * Maps API transaction statuses (including abort variants) onto TransactionStatus
+ * @param value - Raw tx_status
+ */
+function normalizeTxStatus(value: unknown): TransactionStatus['tx_status'] {
+  const status = String(value);
+  if (status === 'success' || status === 'pending') return status;
+  if (status.startsWith('dropped')) return 'dropped';
+  return 'failed';
+}
+
+/**
+ * Converts the numeric string fields of a response object to bigint
+ * @param entry - Response object
+ * @param keys - Fields to convert
+ * @param field - Path of the object, for error messages
+ * @param url - Request URL, for the error
+ */
+function toAmounts<K extends string>(
+  entry: Partial<Record<K, unknown>> | undefined,
+  keys: readonly K[],
+  field: string,
+  url: string
+): Record<K, bigint> {
+  const result = {} as Record<K, bigint>;
+  for (const key of keys) {
+    result[key] = toBigInt(entry?.[key], `${field}.${key}`, url);
+  }
+  return result;
+}
+
+/**
+ * Converts a numeric string from a response to bigint
+ * @param value - Raw value
+ * @param field - Field path, for the error message
+ * @param url - Request URL, for the error
+ */
+function toBigInt(value: unknown, field: string, url: string): bigint {
+  if (typeof value === 'string' && /^-?\d+$/.test(value)) return BigInt(value);
+  if (typeof value === 'number' && Number.isSafeInteger(value)) return BigInt(value);
+
+  throw new StacksApiError(`Invalid numeric field ${field} in response from ${url}: ${String(value)}`, {
+    code: 'parse',
+    url,
+    body: value,
+  });
+}
+
+/**
+ * Parses a JSON body, returning undefined for empty or invalid JSON
+ * @param text - Response text
+ */
+function parseBody(text: string): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Waits for a promise, rejecting with an aborted StacksApiError if the signal fires first
+ * @param promise - Pending result
+ * @param signal - Caller's abort signal
+ * @param url - Request URL, for the error
+ */
+function raceAbort<T>(promise: Promise<T>, signal: AbortSignal, url: string): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new StacksApiError(`Request aborted: ${url}`, { code: 'aborted', url }));
+    // Handlers go on first so a shared load failing after an abort is never unhandled
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * JSON.stringify replacer that serializes bigint values as strings
+ */
+function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
@@ -13,6 +13,7 @@ export const BLOCK_TIME = {
   TARGET: 600, // 10 minutes target
   MIN: 60,
   MAX: 7200,
+  NAKAMOTO: 5, // Stacks blocks after Nakamoto (approximate)
 } as const;
 
 // STX token constants
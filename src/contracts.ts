@@ -38,6 +38,9 @@ export const SIP009_FUNCTIONS = {
   GET_TOKEN_URI: 'get-token-uri',
 } as const;
 
+// Maximum length of a contract name
+export const MAX_CONTRACT_NAME_LENGTH = 128;
+
 /**
  * Validates a contract name
  * @param name - Contract name to validate
@@ -47,7 +50,7 @@ export function isValidContractName(name: string): boolean {
   // Contract names can contain letters, numbers, and hyphens
   // Must start with a letter, max 128 chars
   const regex = /^[a-zA-Z][a-zA-Z0-9-]*$/;
-  return regex.test(name) && name.length <= 128;
+  return regex.test(name) && name.length <= MAX_CONTRACT_NAME_LENGTH;
 }
 
 /**
@@ -3,6 +3,87 @@
  * General formatting functions for blockchain data
  */
 
+import { BLOCK_TIME, STX } from './constants';
+import { DecimalAmount } from './tokens';
+import { BlockChain, BlockClock } from './stacking';
+import { ClarityValue } from './transaction';
+
+export type TimeUnit = 'year' | 'month' | 'week' | 'day' | 'hour' | 'minute' | 'second';
+
+export interface DurationFormatOptions {
+  locale?: string;
+  maxUnits?: number;
+  largestUnit?: TimeUnit;
+  smallestUnit?: TimeUnit;
+  unitDisplay?: 'long' | 'short' | 'narrow';
+}
+
+export interface RelativeTimeOptions {
+  locale?: string;
+  /** Reference time (default: now) */
+  now?: Date | number;
+  largestUnit?: TimeUnit;
+  smallestUnit?: TimeUnit;
+  style?: 'long' | 'short' | 'narrow';
+}
+
+export interface BlockDurationEstimate {
+  seconds: number;
+  date: Date;
+  duration: string;
+  relative: string;
+}
+
+export interface ExecutionCost {
+  read_count: number;
+  read_length: number;
+  write_count: number;
+  write_length: number;
+  runtime: number;
+}
+
+// Per-block execution limits since Stacks 2.1
+export const BLOCK_EXECUTION_LIMITS: ExecutionCost = {
+  read_count: 15_000,
+  read_length: 100_000_000,
+  write_count: 15_000,
+  write_length: 15_000_000,
+  runtime: 5_000_000_000,
+};
+
+export type ClarityTokenKind = 'number' | 'keyword' | 'principal' | 'buff' | 'string' | 'key';
+
+export interface ClarityPrintOptions {
+  multiline?: boolean;
+  indent?: number;
+  /** HTML wraps tokens in `<span class="cv-{kind}">`; ANSI uses terminal colours */
+  highlight?: 'none' | 'html' | 'ansi';
+}
+
+const ANSI_RESET = '\x1b[0m';
+
+const ANSI_COLORS: Record<ClarityTokenKind, string> = {
+  number: '\x1b[33m',
+  keyword: '\x1b[35m',
+  principal: '\x1b[36m',
+  buff: '\x1b[34m',
+  string: '\x1b[32m',
+  key: '\x1b[1m',
+};
+
+// Units from largest to smallest (months and years are approximate)
+const TIME_UNITS: TimeUnit[] = ['year', 'month', 'week', 'day', 'hour', 'minute', 'second'];
+
+const UNIT_SECONDS: Record<TimeUnit, number> = {
+  year: 365 * 86400,
+  month: 30 * 86400,
+  week: 7 * 86400,
+  day: 86400,
+  hour: 3600,
+  minute: 60,
+  second: 1,
+};
+
 /**
  * Formats a block height with thousands separator
  * @param height - Block height
@@ -25,6 +106,98 @@ export function formatTxId(txId: string, length: number = 8): string {
   return `0x${cleaned.slice(0, length)}...${cleaned.slice(-length)}`;
 }
 
+/**
+ * Formats a block, microblock or tenure hash for display
+ * @param hash - Hex hash with or without 0x prefix
+ * @param length - Number of characters to show on each side (default: 8)
+ */
+export function formatHash(hash: string, length: number = 8): string {
+  if (!hash) return '';
+  const cleaned = (hash.startsWith('0x') ? hash.slice(2) : hash).toLowerCase();
+  if (!/^[0-9a-f]+$/.test(cleaned)) return hash;
+  if (cleaned.length <= length * 2 + 3) return `0x${cleaned}`;
+  return `0x${cleaned.slice(0, length)}...${cleaned.slice(-length)}`;
+}
+
+/**
+ * Formats a byte size (e.g., "1.4 KB")
+ * @param bytes - Size in bytes
+ * @param options - Locale, decimal places and binary (KiB) units
+ */
+export function formatByteSize(
+  bytes: number | bigint,
+  options: { locale?: string; maxDecimals?: number; binary?: boolean } = {}
+): string {
+  const { locale = 'en-US', maxDecimals = 1, binary = false } = options;
+  const base = binary ? 1024 : 1000;
+  const units = binary ? ['B', 'KiB', 'MiB', 'GiB', 'TiB'] : ['B', 'KB', 'MB', 'GB', 'TB'];
+
+  let value = Number(bytes);
+  let unit = 0;
+  while (Math.abs(value) >= base && unit < units.length - 1) {
+    value /= base;
+    unit++;
+  }
+
+  const formatted = new Intl.NumberFormat(locale, {
+    maximumFractionDigits: unit === 0 ? 0 : maxDecimals,
+  }).format(value);
+  return `${formatted} ${units[unit]}`;
+}
+
+/**
+ * Formats execution cost units (e.g., "runtime 12,345 · reads 3 (1.2 KB) · writes 1 (40 B)")
+ * @param cost - Execution cost as returned by the API
+ * @param options - Locale, and block limits to append usage percentages
+ */
+export function formatExecutionCost(
+  cost: ExecutionCost,
+  options: { locale?: string; limits?: ExecutionCost } = {}
+): string {
+  const { locale = 'en-US', limits } = options;
+  const number = new Intl.NumberFormat(locale);
+  const percent = new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 2 });
+
+  const usage = (...keys: (keyof ExecutionCost)[]) => {
+    if (!limits) return '';
+    const share = Math.max(...keys.map(key => (limits[key] ? cost[key] / limits[key] : 0)));
+    return ` [${percent.format(share)}]`;
+  };
+
+  return [
+    `runtime ${number.format(cost.runtime)}${usage('runtime')}`,
+    `reads ${number.format(cost.read_count)} (${formatByteSize(cost.read_length, { locale })})` +
+      usage('read_count', 'read_length'),
+    `writes ${number.format(cost.write_count)} (${formatByteSize(cost.write_length, { locale })})` +
+      usage('write_count', 'write_length'),
+  ].join(' · ');
+}
+
+/**
+ * Formats a fee rate in micro-STX per byte (e.g., "1.5 µSTX/byte")
+ * @param rate - Fee rate
+ * @param locale - Locale for formatting
+ */
+export function formatFeeRate(rate: number, locale: string = 'en-US'): string {
+  return `${new Intl.NumberFormat(locale, { maximumFractionDigits: 3 }).format(rate)} µSTX/byte`;
+}
+
+/**
+ * Formats a transaction fee in STX, optionally with its rate
+ * (e.g., "0.0003 STX (1.5 µSTX/byte)")
+ * @param fee - Fee in micro-STX
+ * @param options - Locale and transaction size in bytes
+ */
+export function formatFee(
+  fee: bigint | number,
+  options: { locale?: string; sizeBytes?: number } = {}
+): string {
+  const { locale = 'en-US', sizeBytes } = options;
+  const text = `${DecimalAmount.fromRaw(fee, STX.DECIMALS).format({ locale })} ${STX.SYMBOL}`;
+  if (!sizeBytes) return text;
+  return `${text} (${formatFeeRate(Number(fee) / sizeBytes, locale)})`;
+}
+
 /**
  * Formats a timestamp to a readable date string
  * @param timestamp - Unix timestamp in seconds
@@ -46,46 +219,166 @@ export function formatTimestamp(
 }
 
 /**
- * Formats a relative time (e.g., "5 minutes ago")
- * @param timestamp - Unix timestamp in seconds
+ * Formats a relative time (e.g., "5 minutes ago", "in 3 hours") using
+ * Intl.RelativeTimeFormat. Times within the smallest unit show as "now".
+ * @param timestamp - Unix timestamp in seconds or milliseconds
+ * @param options - Locale, reference time and unit range
  */
-export function formatRelativeTime(timestamp: number): string {
+export function formatRelativeTime(timestamp: number, options: RelativeTimeOptions = {}): string {
+  const {
+    locale = 'en-US',
+    now = Date.now(),
+    largestUnit = 'day',
+    smallestUnit = 'minute',
+    style = 'long',
+  } = options;
+
   const ms = timestamp > 1e12 ? timestamp : timestamp * 1000;
-  const now = Date.now();
-  const diff = now - ms;
-  
-  const seconds = Math.floor(diff / 1000);
-  const minutes = Math.floor(seconds / 60);
-  const hours = Math.floor(minutes / 60);
-  const days = Math.floor(hours / 24);
-  
-  if (days > 0) return `${days} day${days > 1 ? 's' : ''} ago`;
-  if (hours > 0) return `${hours} hour${hours > 1 ? 's' : ''} ago`;
-  if (minutes > 0) return `${minutes} minute${minutes > 1 ? 's' : ''} ago`;
-  return 'Just now';
-}
-
-/**
- * Formats a duration in blocks to human-readable time
+  const diffSeconds = (ms - (now instanceof Date ? now.getTime() : now)) / 1000;
+  const units = getUnitRange(largestUnit, smallestUnit);
+  const unit = units.find(candidate => Math.abs(diffSeconds) >= UNIT_SECONDS[candidate]);
+
+  if (!unit) {
+    return new Intl.RelativeTimeFormat(locale, { numeric: 'auto', style }).format(0, 'second');
+  }
+
+  const value = Math.trunc(diffSeconds / UNIT_SECONDS[unit]);
+  return new Intl.RelativeTimeFormat(locale, { numeric: 'always', style }).format(value, unit);
+}
+
+/**
+ * Formats a duration with up to `maxUnits` units (e.g., "1 day 12 hours")
+ * @param seconds - Duration in seconds (the sign is ignored)
+ * @param options - Locale, number of units, unit range and unit display
+ */
+export function formatDuration(seconds: number, options: DurationFormatOptions = {}): string {
+  const {
+    locale = 'en-US',
+    maxUnits = 2,
+    largestUnit = 'day',
+    smallestUnit = 'minute',
+    unitDisplay = 'long',
+  } = options;
+
+  const units = getUnitRange(largestUnit, smallestUnit);
+  let remaining = Math.floor(Math.abs(seconds));
+  let used = 0;
+  const parts: string[] = [];
+
+  // Take up to maxUnits consecutive units from the largest non-zero one,
+  // so 1 day 0 hours 5 minutes shows as "1 day" with two units
+  for (const unit of units) {
+    const value = Math.floor(remaining / UNIT_SECONDS[unit]);
+    remaining -= value * UNIT_SECONDS[unit];
+    if (value === 0 && used === 0) continue;
+    if (value > 0) parts.push(formatUnit(value, unit, locale, unitDisplay));
+    if (++used >= maxUnits) break;
+  }
+
+  if (parts.length === 0) {
+    return formatUnit(0, smallestUnit, locale, unitDisplay);
+  }
+
+  return new Intl.ListFormat(locale, {
+    type: 'unit',
+    style: unitDisplay === 'long' ? 'narrow' : unitDisplay,
+  }).format(parts);
+}
+
+/**
+ * Formats a duration in blocks to human-readable time (e.g., "~1 day 12 hours")
  * @param blocks - Number of blocks
- * @param avgBlockTime - Average block time in seconds (default: ~10 min for Stacks)
+ * @param avgBlockTime - Average block time in seconds (default: ~10 min, Bitcoin-anchored),
+ *   or a BlockClock to use its current block time
+ * @param options - Chain for a BlockClock (default: bitcoin), locale, number of units,
+ *   unit range and unit display
  */
-export function formatBlockDuration(blocks: number, avgBlockTime: number = 600): string {
-  const totalSeconds = blocks * avgBlockTime;
-  const hours = Math.floor(totalSeconds / 3600);
-  const days = Math.floor(hours / 24);
-  
-  if (days > 0) return `~${days} day${days > 1 ? 's' : ''}`;
-  if (hours > 0) return `~${hours} hour${hours > 1 ? 's' : ''}`;
-  return `~${Math.floor(totalSeconds / 60)} minutes`;
+export function formatBlockDuration(
+  blocks: number,
+  avgBlockTime: number | BlockClock = BLOCK_TIME.TARGET,
+  options: DurationFormatOptions & { chain?: BlockChain } = {}
+): string {
+  const { chain = 'bitcoin', ...formatOptions } = options;
+  const blockTime = avgBlockTime instanceof BlockClock ? avgBlockTime.getBlockTime(chain) : avgBlockTime;
+  return `~${formatDuration(blocks * blockTime, formatOptions)}`;
 }
 
 /**
- * Formats a large number with SI suffixes (K, M, B)
+ * Estimates how long until (or since) a block height, both for fast Stacks
+ * blocks (Nakamoto) and for Bitcoin-anchored blocks
+ * @param currentBlock - Current block height
+ * @param targetBlock - Target block height
+ * @param options - Reference time, block times in seconds and formatting options
+ */
+export function estimateBlockDurations(
+  currentBlock: number,
+  targetBlock: number,
+  options: DurationFormatOptions & {
+    now?: Date;
+    stacksBlockTime?: number;
+    bitcoinBlockTime?: number;
+  } = {}
+): { blocks: number; stacks: BlockDurationEstimate; bitcoin: BlockDurationEstimate } {
+  const {
+    now = new Date(),
+    stacksBlockTime = BLOCK_TIME.NAKAMOTO,
+    bitcoinBlockTime = BLOCK_TIME.TARGET,
+    ...formatOptions
+  } = options;
+  const blocks = targetBlock - currentBlock;
+
+  const estimate = (blockTime: number): BlockDurationEstimate => {
+    const seconds = blocks * blockTime;
+    const date = new Date(now.getTime() + seconds * 1000);
+    return {
+      seconds,
+      date,
+      duration: formatBlockDuration(Math.abs(blocks), blockTime, formatOptions),
+      relative: formatRelativeTime(date.getTime(), {
+        locale: formatOptions.locale,
+        now,
+        largestUnit: formatOptions.largestUnit,
+        smallestUnit: formatOptions.smallestUnit,
+      }),
+    };
+  };
+
+  return { blocks, stacks: estimate(stacksBlockTime), bitcoin: estimate(bitcoinBlockTime) };
+}
+
+/**
+ * Gets the units from `largest` down to `smallest`
+ * @param largest - Largest unit
+ * @param smallest - Smallest unit
+ */
+function getUnitRange(largest: TimeUnit, smallest: TimeUnit): TimeUnit[] {
+  const start = TIME_UNITS.indexOf(largest);
+  const end = TIME_UNITS.indexOf(smallest);
+  if (start === -1 || end === -1 || start > end) {
+    throw new Error(`Invalid unit range: ${largest} to ${smallest}`);
+  }
+  return TIME_UNITS.slice(start, end + 1);
+}
+
+/**
+ * Formats a single unit value (e.g., "12 hours")
+ */
+function formatUnit(
+  value: number,
+  unit: TimeUnit,
+  locale: string,
+  unitDisplay: 'long' | 'short' | 'narrow'
+): string {
+  return new Intl.NumberFormat(locale, { style: 'unit', unit, unitDisplay }).format(value);
+}
+
+/**
+ * Formats a large number with SI suffixes (K, M, B, T)
  * @param num - Number to format
  * @param decimals - Number of decimal places
  */
 export function formatLargeNumber(num: number, decimals: number = 2): string {
+  if (num >= 1e12) return `${(num / 1e12).toFixed(decimals)}T`;
   if (num >= 1e9) return `${(num / 1e9).toFixed(decimals)}B`;
   if (num >= 1e6) return `${(num / 1e6).toFixed(decimals)}M`;
   if (num >= 1e3) return `${(num / 1e3).toFixed(decimals)}K`;
@@ -133,7 +426,9 @@ export function padHex(hex: string, length: number): string {
 }
 
 /**
- * Formats clarity value for display
+ * Formats clarity value for display. Compound types (optional, response,
+ * list, tuple) holding Clarity value trees are rendered as Clarity source via
+ * `printClarityValue`; other values fall back to JSON.
  * @param clarityType - The clarity type string
  * @param value - The value
  */
@@ -151,8 +446,150 @@ export function formatClarityValue(clarityType: string, value: unknown): string
     case 'string-ascii':
     case 'string-utf8':
       return `"${value}"`;
+    case 'optional':
+    case 'ok':
+    case 'err':
+    case 'list':
+    case 'tuple':
+      if (isClarityContents(clarityType, value)) return printClarityValue({ type: clarityType, value });
+      break;
+  }
+  return JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v));
+}
+
+/**
+ * Checks that `value` is valid contents for a Clarity value of `type`, so raw
+ * JS values passed to `formatClarityValue` are not mistaken for value trees
+ */
+function isClarityContents(type: string, value: unknown): boolean {
+  const isTree = (cv: unknown): boolean =>
+    typeof cv === 'object' &&
+    cv !== null &&
+    typeof (cv as ClarityValue).type === 'string' &&
+    'value' in cv &&
+    isClarityContents((cv as ClarityValue).type, (cv as ClarityValue).value);
+
+  switch (type) {
+    case 'uint':
+    case 'int':
+    case 'bool':
+    case 'principal':
+    case 'buff':
+    case 'string-ascii':
+    case 'string-utf8':
+      return true;
+    case 'optional':
+      return value === null || value === undefined || isTree(value);
+    case 'ok':
+    case 'err':
+      return isTree(value);
+    case 'list':
+      return Array.isArray(value) && value.every(isTree);
+    case 'tuple':
+      return (
+        typeof value === 'object' && value !== null && !Array.isArray(value) && Object.values(value).every(isTree)
+      );
     default:
-      return JSON.stringify(value);
+      return false;
+  }
+}
+
+/**
+ * Renders a Clarity value tree (as built by `cvTuple`, `cvList`, `cvSome`,
+ * `cvOk`, ...) as Clarity source, e.g. `{ amount: u100, memo: none }`
+ * @param cv - Clarity value
+ * @param options - Multi-line layout, indent width and syntax highlighting
+ */
+export function printClarityValue(cv: ClarityValue, options: ClarityPrintOptions = {}): string {
+  const { multiline = false, indent = 2, highlight = 'none' } = options;
+
+  const paint = (kind: ClarityTokenKind, text: string): string => {
+    if (highlight === 'html') return `<span class="cv-${kind}">${escapeHtml(text)}</span>`;
+    if (highlight === 'ansi') return `${ANSI_COLORS[kind]}${text}${ANSI_RESET}`;
+    return text;
+  };
+  const plain = (text: string): string => (highlight === 'html' ? escapeHtml(text) : text);
+  const wrap = (keyword: string, inner: string): string =>
+    `${plain('(')}${paint('keyword', keyword)}${inner}${plain(')')}`;
+
+  const render = (value: ClarityValue, depth: number): string => {
+    const pad = multiline ? ' '.repeat(indent * (depth + 1)) : '';
+    const closePad = multiline ? ' '.repeat(indent * depth) : '';
+    const separator = multiline ? '\n' : ' ';
+
+    switch (value.type) {
+      case 'uint':
+        return paint('number', `u${value.value}`);
+      case 'int':
+        return paint('number', String(value.value));
+      case 'bool':
+        return paint('keyword', value.value ? 'true' : 'false');
+      case 'principal':
+        return paint('principal', `'${String(value.value).replace(/^'/, '')}`);
+      case 'buff':
+        return paint('buff', `0x${String(value.value).replace(/^0x/, '')}`);
+      case 'string-ascii':
+        return paint('string', `"${escapeClarityString(String(value.value), false)}"`);
+      case 'string-utf8':
+        return paint('string', `u"${escapeClarityString(String(value.value), true)}"`);
+      case 'optional':
+        if (value.value === null || value.value === undefined) return paint('keyword', 'none');
+        return wrap('some', ` ${render(value.value as ClarityValue, depth)}`);
+      case 'ok':
+      case 'err':
+        return wrap(value.type, ` ${render(value.value as ClarityValue, depth)}`);
+      case 'list': {
+        const items = value.value as ClarityValue[];
+        if (items.length === 0) return wrap('list', '');
+        const body = items.map(item => pad + render(item, depth + 1)).join(separator);
+        return wrap('list', `${separator}${body}${multiline ? `\n${closePad}` : ''}`);
+      }
+      case 'tuple': {
+        const entries = Object.entries(value.value as Record<string, ClarityValue>);
+        if (entries.length === 0) return plain('{}');
+        const body = entries
+          .map(([key, item]) => `${pad}${paint('key', key)}${plain(':')} ${render(item, depth + 1)}`)
+          .join(plain(',') + separator);
+        return multiline
+          ? `${plain('{')}\n${body}\n${closePad}${plain('}')}`
+          : `${plain('{')} ${body} ${plain('}')}`;
+      }
+      default:
+        throw new Error(`Unknown Clarity type: ${value.type}`);
+    }
+  };
+
+  return render(cv, 0);
+}
+
+/**
+ * Escapes a string for a Clarity string literal
+ * @param value - String contents
+ * @param utf8 - Whether to escape non-ASCII characters as \u{...}
+ */
+function escapeClarityString(value: string, utf8: boolean): string {
+  let escaped = '';
+  for (const char of value) {
+    const code = char.codePointAt(0) as number;
+    if (char === '"' || char === '\\') escaped += `\\${char}`;
+    else if (char === '\n') escaped += '\\n';
+    else if (char === '\t') escaped += '\\t';
+    else if (char === '\r') escaped += '\\r';
+    else if (utf8 && (code > 0x7e || code < 0x20)) escaped += `\\u{${code.toString(16)}}`;
+    else escaped += char;
   }
+  return escaped;
 }
 
+/**
+ * Escapes text for HTML
+ * @param text - Raw text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,76 @@
+/**
+ * Identicon Utilities
+ * Deterministic, offline SVG avatars for Stacks principals
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { parsePrincipal } from './address';
+
+export interface IdenticonOptions {
+  size?: number;
+  format?: 'svg' | 'data-uri';
+  seed?: string | number;
+}
+
+// Grid is GRID_SIZE x GRID_SIZE, mirrored around the middle column
+const GRID_SIZE = 5;
+
+/**
+ * Generates a deterministic identicon for a principal. The pattern and
+ * colours are derived from the address hash160 (plus the contract name
+ * and optional seed), so no network access is needed.
+ * @param principal - Standard or contract principal
+ * @param options - Pixel size, output format and an optional extra seed
+ *   (e.g. an NFT token ID)
+ */
+export function generateAddressIdenticon(
+  principal: string,
+  options: IdenticonOptions = {}
+): string {
+  const { size = 64, format = 'svg', seed } = options;
+
+  const parsed = parsePrincipal(principal);
+  if (!parsed.isValid) {
+    throw new Error(`Invalid principal ${principal}: ${parsed.message}`);
+  }
+  if (!Number.isFinite(size) || size <= 0) {
+    throw new Error(`Invalid identicon size: ${size}`);
+  }
+
+  const { hash160 } = parsed.principal;
+  const suffix = parsed.principal.kind === 'contract' ? `.${parsed.principal.contractName}` : '';
+  const extra = seed !== undefined ? `:${seed}` : '';
+  const digest = sha256(new Uint8Array([...hexToBytes(hash160), ...utf8ToBytes(suffix + extra)]));
+
+  const hue = ((digest[0] << 8) | digest[1]) % 360;
+  const saturation = 55 + (digest[2] % 20);
+  const lightness = 45 + (digest[3] % 15);
+  const foreground = `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+  const background = `hsl(${(hue + 180) % 360}, 30%, 94%)`;
+
+  const cells: string[] = [];
+  const half = Math.ceil(GRID_SIZE / 2);
+  for (let row = 0; row < GRID_SIZE; row++) {
+    for (let col = 0; col < half; col++) {
+      // One bit per unique cell, taken from the bytes after the colour bytes
+      const bit = row * half + col;
+      if (((digest[4 + (bit >> 3)] >> (bit & 7)) & 1) === 0) continue;
+
+      cells.push(`<rect x="${col}" y="${row}" width="1" height="1"/>`);
+      const mirror = GRID_SIZE - 1 - col;
+      if (mirror !== col) {
+        cells.push(`<rect x="${mirror}" y="${row}" width="1" height="1"/>`);
+      }
+    }
+  }
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" ` +
+    `viewBox="-0.5 -0.5 ${GRID_SIZE + 1} ${GRID_SIZE + 1}" shape-rendering="crispEdges">` +
+    `<rect x="-0.5" y="-0.5" width="${GRID_SIZE + 1}" height="${GRID_SIZE + 1}" fill="${background}"/>` +
+    `<g fill="${foreground}">${cells.join('')}</g>` +
+    `</svg>`;
+
+  return format === 'data-uri' ? `data:image/svg+xml;utf8,${encodeURIComponent(svg)}` : svg;
+}
@@ -6,12 +6,39 @@
 // Address utilities
 export * from './address';
 
+// Address book / labelling
+export * from './addressbook';
+
 // Token utilities
 export * from './tokens';
 
+// Token registry
+export * from './tokenregistry';
+
+// Price oracles and conversion
+export * from './prices';
+
+// Portfolio snapshots
+export * from './portfolio';
+
 // API helpers
 export * from './api';
 
+// Stacks API client
+export * from './client';
+
+// Retry and rate limiting
+export * from './retry';
+
+// Endpoint pool and failover
+export * from './pool';
+
+// Pagination iterators
+export * from './pagination';
+
+// Response caching
+export * from './cache';
+
 // Formatting utilities
 export * from './format';
 
@@ -24,15 +51,27 @@ export * from './constants';
 // Stacking/PoX utilities
 export * from './stacking';
 
+// STX emission and supply
+export * from './supply';
+
+// Vesting schedules
+export * from './vesting';
+
 // BNS (Blockchain Naming System) utilities
 export * from './bns';
 
 // Transaction builder helpers
 export * from './transaction';
 
+// Airdrop and batch payouts
+export * from './payouts';
+
 // NFT utilities
 export * from './nft';
 
+// Identicons
+export * from './identicon';
+
 // Memo encoder/decoder
 export * from './memo';
 
@@ -3,6 +3,8 @@
  * Functions for working with SIP-009 NFTs on Stacks
  */
 
+import { generateAddressIdenticon } from './identicon';
+
 export interface NftMetadata {
   name: string;
   description?: string;
@@ -243,6 +245,20 @@ export function getPlaceholderImage(contractId: string, tokenId: number | string
   return `https://api.dicebear.com/7.x/shapes/svg?seed=${encodeURIComponent(seed)}`;
 }
 
+/**
+ * Generates an offline placeholder image (SVG data URI) for NFTs without images
+ * @param contractId - NFT contract ID
+ * @param tokenId - Token ID
+ * @param size - Image size in pixels
+ */
+export function getLocalPlaceholderImage(
+  contractId: string,
+  tokenId: number | string,
+  size: number = 256
+): string {
+  return generateAddressIdenticon(contractId, { size, format: 'data-uri', seed: tokenId });
+}
+
 /**
  * Validates if a URI points to a supported media type
  * @param uri - Media URI
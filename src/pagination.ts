@@ -0,0 +1,146 @@
+/**
+ * Pagination Utilities
+ * Async iterators over limit/offset list endpoints with prefetch and resumable cursors
+ */
+
+export interface Page<T> {
+  results: T[];
+  /** Total number of items, if the endpoint reports it */
+  total?: number;
+}
+
+export type PageFetcher<T> = (offset: number, limit: number, signal: AbortSignal) => Promise<Page<T>>;
+
+export interface PaginationCursor {
+  /** Offset of the next item to read */
+  offset: number;
+  /** Total reported by the last page read (informational) */
+  total?: number;
+}
+
+export interface PaginationOptions {
+  /** Items per request, clamped to `maxPageSize` (default: maxPageSize) */
+  pageSize?: number;
+  /** Largest page the endpoint accepts (default: 50) */
+  maxPageSize?: number;
+  /** Stop after this many items */
+  maxItems?: number;
+  /** Cursor saved from a previous iteration */
+  cursor?: PaginationCursor;
+  /** Pages fetched ahead while the current one is consumed (default: 0, fetch on demand) */
+  prefetch?: number;
+  signal?: AbortSignal;
+}
+
+interface PendingPage<T> {
+  limit: number;
+  promise: Promise<Page<T>>;
+}
+
+/**
+ * Iterates the items of a paginated endpoint. `cursor` always points just
+ * past the last item handed to the consumer, so it can be saved after an
+ * early `break` and passed back to continue from there.
+ */
+export class PageIterator<T> implements AsyncIterable<T> {
+  private readonly fetchPage: PageFetcher<T>;
+  private readonly options: PaginationOptions;
+  private offset: number;
+  private total?: number;
+
+  /**
+   * @param fetchPage - Loads `limit` items starting at `offset`
+   * @param options - Page size, limits, resume cursor, prefetch and abort signal
+   */
+  constructor(fetchPage: PageFetcher<T>, options: PaginationOptions = {}) {
+    const { maxPageSize = 50, pageSize = maxPageSize, prefetch = 0, maxItems, cursor } = options;
+    if (!Number.isInteger(maxPageSize) || maxPageSize < 1 || !Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error(`Invalid page size: ${pageSize} (max ${maxPageSize})`);
+    }
+    if (!Number.isInteger(prefetch) || prefetch < 0) {
+      throw new Error(`Invalid prefetch: ${prefetch}`);
+    }
+    if (maxItems !== undefined && (!Number.isInteger(maxItems) || maxItems < 0)) {
+      throw new Error(`Invalid maxItems: ${maxItems}`);
+    }
+    if (cursor && (!Number.isInteger(cursor.offset) || cursor.offset < 0)) {
+      throw new Error(`Invalid cursor offset: ${cursor.offset}`);
+    }
+
+    this.fetchPage = fetchPage;
+    this.options = options;
+    this.offset = cursor?.offset ?? 0;
+    this.total = cursor?.total;
+  }
+
+  /**
+   * Position after the last item consumed, for resuming later
+   */
+  get cursor(): PaginationCursor {
+    return this.total === undefined ? { offset: this.offset } : { offset: this.offset, total: this.total };
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    const { maxPageSize = 50, prefetch = 0, maxItems, signal } = this.options;
+    const pageSize = Math.min(this.options.pageSize ?? maxPageSize, maxPageSize);
+    const end = maxItems === undefined ? Infinity : this.offset + maxItems;
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    if (signal?.aborted) controller.abort(signal.reason);
+
+    const queue: PendingPage<T>[] = [];
+    let nextOffset = this.offset;
+    // Only totals seen in this run bound the requests; the list may have grown since a saved cursor
+    let total = Infinity;
+
+    const fill = (pages: number) => {
+      while (queue.length < pages && nextOffset < Math.min(end, total)) {
+        const size = Math.min(pageSize, end - nextOffset);
+        const promise = this.fetchPage(nextOffset, size, controller.signal);
+        // Pages dropped on early termination must not cause unhandled rejections
+        promise.catch(() => undefined);
+        queue.push({ limit: size, promise });
+        nextOffset += size;
+      }
+    };
+
+    try {
+      for (;;) {
+        if (queue.length === 0) fill(1);
+        const pending = queue.shift();
+        if (!pending) return;
+
+        const page = await pending.promise;
+        if (page.total !== undefined) {
+          this.total = page.total;
+          total = page.total;
+        }
+
+        // A short page means the end of the list, whatever was prefetched after it
+        const isLastPage = page.results.length < pending.limit;
+        if (!isLastPage) fill(prefetch);
+
+        for (const item of page.results.slice(0, pending.limit)) {
+          this.offset++;
+          yield item;
+        }
+
+        if (isLastPage) return;
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (queue.length > 0) controller.abort();
+    }
+  }
+
+  /**
+   * Collects the remaining items into an array
+   */
+  async toArray(): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of this) items.push(item);
+    return items;
+  }
+}
@@ -0,0 +1,438 @@
+/**
+ * Payout Utilities
+ * Airdrop and batch-payout planning for STX and SIP-010 tokens
+ */
+
+import { parsePrincipal } from './address';
+import { encodeMemo, isValidMemo } from './memo';
+import { DecimalAmount } from './tokens';
+import { STX_ASSET_ID, parseAssetIdentifier } from './tokenregistry';
+import {
+  ClarityValue,
+  ContractCallPayload,
+  PostCondition,
+  createContractCallPayload,
+  createFungiblePostCondition,
+  createStxPostCondition,
+  cvBuff,
+  cvList,
+  cvNone,
+  cvPrincipal,
+  cvSome,
+  cvTuple,
+  cvUint,
+  estimateFee,
+} from './transaction';
+
+// Widely used send-many contract for STX transfers with memos
+export const SEND_MANY_CONTRACT_MAINNET = 'SP3FBR2AGK5H9QBDH3EEN6DF8EK8JY7RX8QJ5SVTE.send-many-memo';
+
+// Maximum list length accepted by send-many contracts
+export const SEND_MANY_MAX_RECIPIENTS = 200;
+
+export interface PayoutRecipient {
+  recipient: string;
+  /** Fixed raw amount (mutually exclusive with `weight`) */
+  amount?: bigint;
+  /** Relative share of the amount left after fixed payouts */
+  weight?: number | string | bigint;
+  memo?: string;
+}
+
+export interface PayoutAllocation {
+  recipient: string;
+  amount: bigint;
+  memo?: string;
+}
+
+export interface PayoutPlan {
+  allocations: PayoutAllocation[];
+  total: bigint;
+  /** Part of the total not assigned to anyone (no weighted recipients) */
+  undistributed: bigint;
+}
+
+export interface PayoutBatchOptions {
+  /** Asset identifier of the token, or "stx" (default) */
+  asset?: string;
+  /**
+   * send-many contract (default: SEND_MANY_CONTRACT_MAINNET for STX). Required
+   * for tokens: SIP-010 contracts do not implement send-many themselves, so a
+   * batch-transfer contract for the token must be given.
+   */
+  contractId?: string;
+  functionName?: string;
+  /** Tuple key of the amount (default: "ustx" for STX, "amount" for tokens) */
+  amountKey?: string;
+  /** Memo argument type (default: "buff" for STX, "optional" for tokens) */
+  memoType?: 'buff' | 'optional' | 'none';
+  maxBatchSize?: number;
+  /** Sending principal; adds a post condition for each batch total */
+  sender?: string;
+  /** Fee rate in micro-STX per byte */
+  feeRate?: number;
+}
+
+export interface PayoutBatch {
+  index: number;
+  allocations: PayoutAllocation[];
+  total: bigint;
+  payload: ContractCallPayload;
+  postConditions: PostCondition[];
+  estimatedSize: number;
+  estimatedFee: bigint;
+}
+
+// Decimal places kept when turning weights into integers
+const WEIGHT_DECIMALS = 18;
+
+// Approximate bytes of a single-sig transaction outside the payload
+const TX_BASE_SIZE = 120;
+
+// Approximate bytes of one serialized post condition
+const POST_CONDITION_SIZE = 64;
+
+/**
+ * Splits a total across recipients. Fixed amounts are paid first and the
+ * rest is shared by weight; rounding leftovers go one unit at a time to the
+ * recipients with the largest fractional shares, so the result sums exactly.
+ * @param recipients - Recipients with a fixed amount or a weight
+ * @param total - Raw amount to distribute (default: sum of fixed amounts)
+ */
+export function allocatePayout(recipients: readonly PayoutRecipient[], total?: bigint): PayoutPlan {
+  recipients.forEach((entry, i) => assertValidRecipient(entry, i));
+
+  const fixedTotal = recipients.reduce((sum, entry) => sum + (entry.amount ?? 0n), 0n);
+  const weighted = recipients.some(entry => entry.weight !== undefined);
+
+  if (total === undefined) {
+    if (weighted) throw new Error('A total is required to distribute by weight');
+    total = fixedTotal;
+  }
+  if (total < 0n) {
+    throw new Error(`Invalid payout total: ${total}`);
+  }
+  if (fixedTotal > total) {
+    throw new Error(`Fixed amounts (${fixedTotal}) exceed the payout total (${total})`);
+  }
+
+  const pool = total - fixedTotal;
+  const weights = recipients.map(entry =>
+    entry.weight === undefined ? 0n : DecimalAmount.parse(String(entry.weight), WEIGHT_DECIMALS).raw
+  );
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0n);
+
+  if (weighted && weightSum === 0n && pool > 0n) {
+    throw new Error('Weights must not all be zero');
+  }
+
+  const amounts = recipients.map((entry, i) =>
+    entry.amount !== undefined ? entry.amount : weightSum === 0n ? 0n : (pool * weights[i]) / weightSum
+  );
+
+  let undistributed = 0n;
+  if (weightSum > 0n) {
+    const leftover = pool - amounts.reduce((sum, amount, i) => sum + (weights[i] > 0n ? amount : 0n), 0n);
+    const byRemainder = recipients
+      .map((_, i) => ({ i, remainder: (pool * weights[i]) % weightSum }))
+      .filter(({ i }) => weights[i] > 0n)
+      .sort((a, b) => (b.remainder > a.remainder ? 1 : b.remainder < a.remainder ? -1 : a.i - b.i));
+
+    for (let k = 0n; k < leftover; k++) {
+      amounts[byRemainder[Number(k)].i] += 1n;
+    }
+  } else {
+    undistributed = pool;
+  }
+
+  return {
+    allocations: recipients.map((entry, i) => ({
+      recipient: entry.recipient.trim(),
+      amount: amounts[i],
+      ...(entry.memo ? { memo: entry.memo } : {}),
+    })),
+    total,
+    undistributed,
+  };
+}
+
+/**
+ * Chunks allocations into send-many contract calls. Zero amounts are
+ * skipped, since transfers of 0 fail on-chain.
+ * @param allocations - Allocations from `allocatePayout`
+ * @param options - Asset, contract, batch size, sender and fee rate
+ */
+export function buildPayoutBatches(
+  allocations: readonly PayoutAllocation[],
+  options: PayoutBatchOptions = {}
+): PayoutBatch[] {
+  const asset = options.asset ?? STX_ASSET_ID;
+  const isStx = asset.toLowerCase() === STX_ASSET_ID;
+  const token = isStx ? null : parseAssetIdentifier(asset);
+
+  if (!isStx && !token) {
+    throw new Error(`Invalid asset identifier: ${asset}`);
+  }
+
+  const {
+    contractId = isStx ? SEND_MANY_CONTRACT_MAINNET : undefined,
+    functionName = 'send-many',
+    amountKey = isStx ? 'ustx' : 'amount',
+    memoType = isStx ? 'buff' : 'optional',
+    maxBatchSize = SEND_MANY_MAX_RECIPIENTS,
+    sender,
+    feeRate = 1,
+  } = options;
+
+  if (!contractId) {
+    throw new Error(`A send-many contractId is required for token payouts: ${asset}`);
+  }
+  if (!Number.isInteger(maxBatchSize) || maxBatchSize <= 0) {
+    throw new Error(`Invalid batch size: ${maxBatchSize}`);
+  }
+
+  const payable = allocations.filter(allocation => allocation.amount > 0n);
+  const batches: PayoutBatch[] = [];
+
+  for (let start = 0; start < payable.length; start += maxBatchSize) {
+    const chunk = payable.slice(start, start + maxBatchSize);
+    const total = chunk.reduce((sum, allocation) => sum + allocation.amount, 0n);
+
+    const entries = chunk.map(allocation => {
+      const [address, contractName] = allocation.recipient.split('.');
+      const fields: Record<string, ClarityValue> = {
+        to: cvPrincipal(address, contractName),
+        [amountKey]: cvUint(allocation.amount),
+      };
+      if (memoType !== 'none') {
+        const memo = cvBuff(encodeMemo(allocation.memo ?? '', false));
+        fields.memo = memoType === 'buff' ? memo : allocation.memo ? cvSome(memo) : cvNone();
+      }
+      return cvTuple(fields);
+    });
+
+    const postConditions: PostCondition[] = [];
+    if (sender) {
+      postConditions.push(
+        token
+          ? createFungiblePostCondition(
+              sender,
+              'eq',
+              total,
+              token.contractAddress,
+              token.contractName,
+              token.assetName
+            )
+          : createStxPostCondition(sender, 'eq', total)
+      );
+    }
+
+    const payload = createContractCallPayload(contractId as string, functionName, [cvList(entries)]);
+    const estimatedSize =
+      TX_BASE_SIZE + postConditions.length * POST_CONDITION_SIZE + estimatePayloadSize(payload);
+
+    batches.push({
+      index: batches.length,
+      allocations: chunk,
+      total,
+      payload,
+      postConditions,
+      estimatedSize,
+      estimatedFee: estimateFee(estimatedSize, feeRate),
+    });
+  }
+
+  return batches;
+}
+
+/**
+ * Parses a payout CSV with a header row. Recognised columns are
+ * `recipient` (or `address`), `amount`, `weight` and `memo`.
+ * @param csv - CSV text (RFC 4180 quoting)
+ * @param options - Token decimals if amounts are written as decimals
+ *   (e.g. "12.5"); raw integer units are expected otherwise
+ */
+export function parsePayoutCsv(csv: string, options: { decimals?: number } = {}): PayoutRecipient[] {
+  const rows = parseCsvRows(csv).filter(row => row.some(cell => cell.trim() !== ''));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  const column = (...names: string[]) => header.findIndex(name => names.includes(name));
+  const recipientCol = column('recipient', 'address');
+  const amountCol = column('amount');
+  const weightCol = column('weight');
+  const memoCol = column('memo');
+
+  if (recipientCol === -1) {
+    throw new Error('Payout CSV must have a "recipient" column');
+  }
+
+  return rows.slice(1).map((row, i) => {
+    const line = i + 2;
+    const cell = (col: number) => (col === -1 ? '' : (row[col] ?? '').trim());
+    const entry: PayoutRecipient = { recipient: cell(recipientCol) };
+
+    const amount = cell(amountCol);
+    if (amount) {
+      try {
+        entry.amount =
+          options.decimals === undefined ? BigInt(amount) : DecimalAmount.parse(amount, options.decimals).raw;
+      } catch {
+        throw new Error(`Invalid amount on line ${line}: ${amount}`);
+      }
+    }
+
+    const weight = cell(weightCol);
+    if (weight) entry.weight = weight;
+
+    const memo = memoCol === -1 ? '' : (row[memoCol] ?? '');
+    if (memo) entry.memo = memo;
+
+    return entry;
+  });
+}
+
+/**
+ * Exports allocations as CSV with `recipient,amount,memo` columns
+ * @param allocations - Allocations to export
+ * @param options - Token decimals to write decimal amounts instead of raw units
+ */
+export function exportPayoutCsv(
+  allocations: readonly PayoutAllocation[],
+  options: { decimals?: number } = {}
+): string {
+  const lines = allocations.map(allocation => {
+    const amount =
+      options.decimals === undefined
+        ? allocation.amount.toString()
+        : DecimalAmount.fromRaw(allocation.amount, options.decimals).toString();
+    return [allocation.recipient, amount, allocation.memo ?? ''].map(toCsvField).join(',');
+  });
+
+  return ['recipient,amount,memo', ...lines].join('\n') + '\n';
+}
+
+/**
+ * Throws if a recipient entry is invalid
+ * @param entry - Recipient entry
+ * @param index - Position in the input list
+ */
+function assertValidRecipient(entry: PayoutRecipient, index: number): void {
+  const parsed = parsePrincipal(entry.recipient.trim());
+  if (!parsed.isValid) {
+    throw new Error(`Invalid recipient at index ${index}: ${parsed.message}`);
+  }
+  if ((entry.amount === undefined) === (entry.weight === undefined)) {
+    throw new Error(`Recipient at index ${index} needs exactly one of amount or weight`);
+  }
+  if (entry.amount !== undefined && entry.amount < 0n) {
+    throw new Error(`Invalid amount at index ${index}: ${entry.amount}`);
+  }
+  if (entry.weight !== undefined && DecimalAmount.parse(String(entry.weight), WEIGHT_DECIMALS).isNegative()) {
+    throw new Error(`Invalid weight at index ${index}: ${entry.weight}`);
+  }
+  if (entry.memo && !isValidMemo(entry.memo)) {
+    throw new Error(`Memo at index ${index} is longer than 34 bytes`);
+  }
+}
+
+/**
+ * Estimates the serialized size of a contract call payload in bytes
+ * @param payload - Contract call payload
+ */
+function estimatePayloadSize(payload: ContractCallPayload): number {
+  const header = 1 + 21 + 1 + payload.contractName.length + 1 + payload.functionName.length + 4;
+  return header + payload.functionArgs.reduce((sum, arg) => sum + estimateValueSize(arg), 0);
+}
+
+/**
+ * Estimates the consensus-serialized size of a Clarity value in bytes
+ * @param cv - Clarity value
+ */
+function estimateValueSize(cv: ClarityValue): number {
+  switch (cv.type) {
+    case 'uint':
+    case 'int':
+      return 17;
+    case 'bool':
+      return 1;
+    case 'principal': {
+      const [, contractName] = String(cv.value).split('.');
+      return contractName ? 23 + contractName.length : 22;
+    }
+    case 'buff':
+      return 5 + String(cv.value).length / 2;
+    case 'string-ascii':
+    case 'string-utf8':
+      return 5 + new TextEncoder().encode(String(cv.value)).length;
+    case 'optional':
+      return cv.value ? 1 + estimateValueSize(cv.value as ClarityValue) : 1;
+    case 'list':
+      return 5 + (cv.value as ClarityValue[]).reduce((sum, item) => sum + estimateValueSize(item), 0);
+    case 'tuple':
+      return (
+        5 +
+        Object.entries(cv.value as Record<string, ClarityValue>).reduce(
+          (sum, [key, value]) => sum + 1 + key.length + estimateValueSize(value),
+          0
+        )
+      );
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Splits CSV text into rows of fields, handling quoted fields with commas,
+ * escaped quotes and line breaks
+ * @param text - CSV text
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Quotes a CSV field if needed
+ * @param value - Field value
+ */
+function toCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
@@ -0,0 +1,270 @@
+/**
+ * Endpoint Pool
+ * Weighted, health-checked failover across several Stacks API endpoints
+ */
+
+import { createApiConfig } from './api';
+import { ApiRequestOptions, StacksApiClient, StacksApiClientOptions, StacksApiError } from './client';
+import { isRetryable } from './retry';
+
+export type EndpointHealth = 'unknown' | 'healthy' | 'lagging' | 'down';
+
+export interface PoolEndpoint {
+  url: string;
+  /** Relative share of requests among healthy endpoints (default: 1) */
+  weight?: number;
+  /** Extra headers, e.g. an API key for this endpoint only */
+  headers?: Record<string, string>;
+}
+
+export interface EndpointState {
+  url: string;
+  weight: number;
+  health: EndpointHealth;
+  /** Stacks tip height at the last probe */
+  tipHeight?: number;
+  burnBlockHeight?: number;
+  /** Blocks behind the highest tip seen in the last probe */
+  lag?: number;
+  /** Probe round-trip time in milliseconds */
+  latency?: number;
+  /** Consecutive failed requests or probes */
+  failures: number;
+  /** Time of the last probe in milliseconds */
+  lastChecked?: number;
+  lastError?: string;
+}
+
+export interface FailoverEvent {
+  from: string;
+  error: StacksApiError;
+}
+
+export interface EndpointPoolOptions {
+  /** Maximum blocks behind the best tip before an endpoint is refused (default: 10) */
+  maxLag?: number;
+  /** Interval between background probes in milliseconds (default: 30000) */
+  probeInterval?: number;
+  /** Time a failed endpoint is skipped before being tried again, in milliseconds (default: 30000) */
+  cooldown?: number;
+  /** Options for the per-endpoint clients (fetch, retry, rate limiter, hooks) */
+  client?: StacksApiClientOptions;
+  onHealthChange?: (endpoint: EndpointState, previous: EndpointHealth) => void;
+  onFailover?: (event: FailoverEvent) => void;
+  /** Random source in [0, 1) used for weighted selection, for tests */
+  random?: () => number;
+  /** Clock in milliseconds, for tests (default: Date.now) */
+  now?: () => number;
+}
+
+interface PoolMember {
+  state: EndpointState;
+  client: StacksApiClient;
+  downUntil: number;
+}
+
+/**
+ * Routes requests across several API endpoints. Healthy endpoints share
+ * traffic by weight; endpoints whose tip is more than `maxLag` blocks behind
+ * are refused, and failing endpoints are skipped for `cooldown` ms.
+ * Endpoints that have not been probed are only used when none is healthy.
+ */
+export class EndpointPool {
+  private readonly members: PoolMember[];
+  private readonly options: EndpointPoolOptions;
+  private readonly now: () => number;
+  private timer?: ReturnType<typeof setInterval>;
+
+  /**
+   * @param endpoints - Base URLs or endpoint definitions
+   * @param options - Lag limit, probe interval, cooldown, client options and hooks
+   */
+  constructor(endpoints: readonly (string | PoolEndpoint)[], options: EndpointPoolOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new Error('Endpoint pool requires at least one endpoint');
+    }
+
+    this.options = options;
+    this.now = options.now ?? Date.now;
+    this.members = endpoints.map(entry => {
+      const endpoint = typeof entry === 'string' ? { url: entry } : entry;
+      const weight = endpoint.weight ?? 1;
+      if (!(weight > 0)) {
+        throw new Error(`Invalid endpoint weight for ${endpoint.url}: ${weight}`);
+      }
+
+      const config = createApiConfig('mainnet', endpoint.url);
+      config.headers = { ...config.headers, ...endpoint.headers };
+
+      return {
+        state: { url: endpoint.url, weight, health: 'unknown', failures: 0 },
+        client: new StacksApiClient(config, options.client),
+        downUntil: 0,
+      };
+    });
+  }
+
+  /**
+   * Gets a snapshot of every endpoint's state
+   */
+  getEndpoints(): EndpointState[] {
+    return this.members.map(member => ({ ...member.state }));
+  }
+
+  /**
+   * Probes `/v2/info` on every endpoint and updates tips, lag and health
+   * @returns Updated endpoint states
+   */
+  async probe(): Promise<EndpointState[]> {
+    const results = await Promise.all(
+      this.members.map(async member => {
+        const started = this.now();
+        try {
+          const info = await member.client.getInfo();
+          return { member, info, latency: this.now() - started };
+        } catch (error) {
+          return { member, error: error as Error };
+        }
+      })
+    );
+
+    const bestTip = Math.max(...results.map(result => result.info?.stacks_tip_height ?? -Infinity));
+    const { maxLag = 10 } = this.options;
+
+    for (const { member, info, latency, error } of results) {
+      const { state } = member;
+      state.lastChecked = this.now();
+
+      if (!info) {
+        this.markFailure(member, error as Error);
+        continue;
+      }
+
+      state.tipHeight = info.stacks_tip_height;
+      state.burnBlockHeight = info.burn_block_height;
+      state.lag = bestTip - info.stacks_tip_height;
+      state.latency = latency;
+      state.failures = 0;
+      state.lastError = undefined;
+      member.downUntil = 0;
+      this.setHealth(member, state.lag > maxLag ? 'lagging' : 'healthy');
+    }
+
+    return this.getEndpoints();
+  }
+
+  /**
+   * Starts probing in the background (runs a first probe immediately)
+   */
+  start(): void {
+    if (this.timer) return;
+    const { probeInterval = 30000 } = this.options;
+    const run = () => void this.probe().catch(() => undefined);
+    run();
+    this.timer = setInterval(run, probeInterval);
+    // Do not keep a Node.js process alive just for probing
+    (this.timer as { unref?: () => void }).unref?.();
+  }
+
+  /**
+   * Stops background probing
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Picks the endpoint for the next request
+   * @param exclude - URLs already tried
+   * @returns Endpoint state, or undefined if none is usable
+   */
+  select(exclude: ReadonlySet<string> = new Set()): EndpointState | undefined {
+    return this.pick(exclude)?.state;
+  }
+
+  /**
+   * Runs an operation against the selected endpoint's client, failing over
+   * to the next endpoint on timeouts, network errors, 429 and 5xx responses.
+   * Other errors are thrown immediately.
+   * @param operation - Callback receiving the endpoint's client
+   * @throws The last StacksApiError if every endpoint failed
+   */
+  async execute<T>(operation: (client: StacksApiClient) => Promise<T>): Promise<T> {
+    const tried = new Set<string>();
+    let lastError: StacksApiError | undefined;
+
+    for (let member = this.pick(tried); member; member = this.pick(tried)) {
+      tried.add(member.state.url);
+      try {
+        const result = await operation(member.client);
+        this.markSuccess(member);
+        return result;
+      } catch (error) {
+        if (!(error instanceof StacksApiError) || !isRetryable(error.code, error.status)) throw error;
+        this.markFailure(member, error);
+        this.options.onFailover?.({ from: member.state.url, error });
+        lastError = error;
+      }
+    }
+
+    if (lastError) throw lastError;
+    throw new Error('No healthy endpoints available');
+  }
+
+  /**
+   * Performs a JSON request with failover
+   * @param path - API path (e.g., "/v2/info")
+   * @param options - Request options
+   */
+  request<T = unknown>(path: string, options: ApiRequestOptions = {}): Promise<T> {
+    return this.execute(client => client.request<T>(path, options));
+  }
+
+  /**
+   * Chooses among healthy endpoints by weight, falling back to unprobed
+   * endpoints and then to ones whose cooldown has expired
+   * @param exclude - URLs to skip
+   */
+  private pick(exclude: ReadonlySet<string>): PoolMember | undefined {
+    const now = this.now();
+    const available = this.members.filter(member => !exclude.has(member.state.url));
+    const tiers = [
+      available.filter(member => member.state.health === 'healthy'),
+      available.filter(member => member.state.health === 'unknown'),
+      available.filter(member => member.state.health === 'down' && member.downUntil <= now),
+    ];
+
+    const candidates = tiers.find(tier => tier.length > 0);
+    if (!candidates) return undefined;
+
+    const totalWeight = candidates.reduce((sum, member) => sum + member.state.weight, 0);
+    let target = (this.options.random ?? Math.random)() * totalWeight;
+    for (const member of candidates) {
+      target -= member.state.weight;
+      if (target < 0) return member;
+    }
+    return candidates[candidates.length - 1];
+  }
+
+  private markSuccess(member: PoolMember): void {
+    member.state.failures = 0;
+    if (member.state.health === 'down') this.setHealth(member, 'unknown');
+  }
+
+  private markFailure(member: PoolMember, error: Error): void {
+    const { cooldown = 30000 } = this.options;
+    member.state.failures += 1;
+    member.state.lastError = error.message;
+    member.downUntil = this.now() + cooldown;
+    this.setHealth(member, 'down');
+  }
+
+  private setHealth(member: PoolMember, health: EndpointHealth): void {
+    const previous = member.state.health;
+    member.state.health = health;
+    if (previous !== health) {
+      this.options.onHealthChange?.({ ...member.state }, previous);
+    }
+  }
+}
@@ -0,0 +1,301 @@
+/**
+ * Portfolio Utilities
+ * Typed balance snapshots built from account balance responses
+ */
+
+import { AccountBalance } from './api';
+import { PriceOracle, getCurrencyDecimals } from './prices';
+import { DecimalAmount } from './tokens';
+import {
+  STX_ASSET_ID,
+  TokenRegistry,
+  getDefaultTokenRegistry,
+  parseAssetIdentifier,
+} from './tokenregistry';
+
+export interface TokenHolding {
+  assetId: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  balance: DecimalAmount;
+  /** false if the token is not in the registry (decimals default to 0) */
+  known: boolean;
+  verified: boolean;
+  fiatValue?: DecimalAmount;
+}
+
+export interface StxHolding extends TokenHolding {
+  locked: DecimalAmount;
+  available: DecimalAmount;
+}
+
+export interface NftHolding {
+  assetId: string;
+  contractId: string;
+  assetName: string;
+  count: bigint;
+}
+
+export interface Portfolio {
+  stx: StxHolding;
+  fungibleTokens: TokenHolding[];
+  nonFungibleTokens: NftHolding[];
+  currency?: string;
+  totalFiatValue?: DecimalAmount;
+  timestamp: number;
+}
+
+export interface BuildPortfolioOptions {
+  currency?: string;
+  includeZeroBalances?: boolean;
+  timestamp?: number;
+}
+
+export type HoldingSortKey = 'value' | 'balance' | 'symbol';
+
+export interface HoldingChange {
+  assetId: string;
+  symbol: string;
+  before: DecimalAmount;
+  after: DecimalAmount;
+  delta: DecimalAmount;
+}
+
+export interface NftChange {
+  assetId: string;
+  before: bigint;
+  after: bigint;
+  delta: bigint;
+}
+
+export interface PortfolioDiff {
+  tokens: HoldingChange[];
+  nfts: NftChange[];
+  fiatDelta?: DecimalAmount;
+}
+
+/**
+ * Builds a typed portfolio snapshot from an account balance response
+ * @param balance - Response of the `/extended/v1/address/{address}/balances` endpoint
+ *   (raw or parsed by StacksApiClient)
+ * @param registry - Token metadata (default: the shared default registry)
+ * @param prices - Optional price source used to attach fiat values
+ * @param options - Fiat currency, zero-balance handling and snapshot timestamp
+ */
+export async function buildPortfolio(
+  balance: AccountBalance<string | bigint>,
+  registry: TokenRegistry = getDefaultTokenRegistry(),
+  prices?: PriceOracle,
+  options: BuildPortfolioOptions = {}
+): Promise<Portfolio> {
+  const {
+    currency = 'USD',
+    includeZeroBalances = false,
+    timestamp = Math.floor(Date.now() / 1000),
+  } = options;
+
+  const stxToken = registry.get(STX_ASSET_ID);
+  const stxDecimals = stxToken?.decimals ?? 6;
+  const stxSymbol = stxToken?.symbol ?? 'STX';
+  const total = DecimalAmount.fromRaw(balance.stx.balance, stxDecimals, stxSymbol);
+  const locked = DecimalAmount.fromRaw(balance.stx.locked, stxDecimals, stxSymbol);
+
+  const stx: StxHolding = {
+    assetId: STX_ASSET_ID,
+    name: stxToken?.name ?? 'Stacks',
+    symbol: stxSymbol,
+    decimals: stxDecimals,
+    balance: total,
+    known: true,
+    verified: true,
+    locked,
+    available: total.sub(locked),
+  };
+
+  const fungibleTokens = Object.entries(balance.fungible_tokens)
+    .map(([assetId, entry]) => toTokenHolding(assetId, entry.balance, registry))
+    .filter(holding => includeZeroBalances || !holding.balance.isZero());
+
+  const nonFungibleTokens = Object.entries(balance.non_fungible_tokens)
+    .map(([assetId, entry]) => toNftHolding(assetId, entry.count))
+    .filter(holding => includeZeroBalances || holding.count !== 0n);
+
+  const portfolio: Portfolio = {
+    stx,
+    fungibleTokens: sortHoldings(fungibleTokens, 'symbol'),
+    nonFungibleTokens,
+    timestamp,
+  };
+
+  if (prices) {
+    await attachFiatValues(portfolio, prices, currency);
+  }
+
+  return portfolio;
+}
+
+/**
+ * Sorts holdings (returns a new array). Holdings without a fiat value sort
+ * last when sorting by value; balances with different decimals are compared
+ * exactly.
+ * @param holdings - Holdings to sort
+ * @param by - Sort key (default: value)
+ * @param direction - Sort direction (default: descending, ascending for symbol)
+ */
+export function sortHoldings<T extends TokenHolding>(
+  holdings: readonly T[],
+  by: HoldingSortKey = 'value',
+  direction: 'asc' | 'desc' = by === 'symbol' ? 'asc' : 'desc'
+): T[] {
+  const sign = direction === 'asc' ? 1 : -1;
+
+  return [...holdings].sort((a, b) => {
+    if (by === 'symbol') {
+      return sign * a.symbol.localeCompare(b.symbol) || a.assetId.localeCompare(b.assetId);
+    }
+    if (by === 'value') {
+      if (!a.fiatValue || !b.fiatValue) {
+        if (a.fiatValue) return -1;
+        if (b.fiatValue) return 1;
+        return sign * compareAmounts(a.balance, b.balance);
+      }
+      return sign * compareAmounts(a.fiatValue, b.fiatValue);
+    }
+    return sign * compareAmounts(a.balance, b.balance);
+  });
+}
+
+/**
+ * Computes balance changes between two snapshots of the same account
+ * @param before - Older snapshot
+ * @param after - Newer snapshot
+ * @param options - Set `includeUnchanged` to list assets with no change
+ */
+export function diffPortfolios(
+  before: Portfolio,
+  after: Portfolio,
+  options: { includeUnchanged?: boolean } = {}
+): PortfolioDiff {
+  const { includeUnchanged = false } = options;
+
+  const previous = new Map<string, TokenHolding>();
+  [before.stx, ...before.fungibleTokens].forEach(holding => previous.set(holding.assetId, holding));
+  const current = new Map<string, TokenHolding>();
+  [after.stx, ...after.fungibleTokens].forEach(holding => current.set(holding.assetId, holding));
+
+  const tokens: HoldingChange[] = [];
+  for (const assetId of new Set([...current.keys(), ...previous.keys()])) {
+    const newer = current.get(assetId);
+    const older = previous.get(assetId);
+    const reference = (newer ?? older) as TokenHolding;
+    const { decimals, symbol } = reference;
+
+    const afterAmount = newer?.balance.rescale(decimals) ?? DecimalAmount.zero(decimals, symbol);
+    const beforeAmount = older?.balance.rescale(decimals) ?? DecimalAmount.zero(decimals, symbol);
+    const delta = afterAmount.sub(beforeAmount);
+
+    if (includeUnchanged || !delta.isZero()) {
+      tokens.push({ assetId, symbol, before: beforeAmount, after: afterAmount, delta });
+    }
+  }
+
+  const previousNfts = new Map(before.nonFungibleTokens.map(nft => [nft.assetId, nft.count]));
+  const currentNfts = new Map(after.nonFungibleTokens.map(nft => [nft.assetId, nft.count]));
+
+  const nfts: NftChange[] = [];
+  for (const assetId of new Set([...currentNfts.keys(), ...previousNfts.keys()])) {
+    const newer = currentNfts.get(assetId) ?? 0n;
+    const older = previousNfts.get(assetId) ?? 0n;
+    if (includeUnchanged || newer !== older) {
+      nfts.push({ assetId, before: older, after: newer, delta: newer - older });
+    }
+  }
+
+  const diff: PortfolioDiff = { tokens, nfts };
+  if (
+    before.totalFiatValue &&
+    after.totalFiatValue &&
+    before.currency === after.currency &&
+    before.totalFiatValue.decimals === after.totalFiatValue.decimals
+  ) {
+    diff.fiatDelta = after.totalFiatValue.sub(before.totalFiatValue);
+  }
+
+  return diff;
+}
+
+/**
+ * Resolves a fungible token balance against the registry
+ * @param assetId - Asset identifier
+ * @param raw - Raw balance
+ * @param registry - Token registry
+ */
+function toTokenHolding(assetId: string, raw: string | bigint, registry: TokenRegistry): TokenHolding {
+  const token = registry.get(assetId);
+  if (token) {
+    return {
+      assetId,
+      name: token.name,
+      symbol: token.symbol,
+      decimals: token.decimals,
+      balance: DecimalAmount.fromRaw(raw, token.decimals, token.symbol),
+      known: true,
+      verified: token.verified,
+    };
+  }
+
+  const assetName = parseAssetIdentifier(assetId)?.assetName ?? assetId;
+  return {
+    assetId,
+    name: assetName,
+    symbol: assetName,
+    decimals: 0,
+    balance: DecimalAmount.fromRaw(raw, 0, assetName),
+    known: false,
+    verified: false,
+  };
+}
+
+/**
+ * Converts an NFT balance entry
+ * @param assetId - Asset identifier
+ * @param count - Number of NFTs held
+ */
+function toNftHolding(assetId: string, count: string | bigint): NftHolding {
+  const [contractId, assetName = ''] = assetId.split('::');
+  return { assetId, contractId, assetName, count: BigInt(count) };
+}
+
+/**
+ * Fetches quotes for every known holding and fills in fiat values and the total
+ * @param portfolio - Portfolio to update
+ * @param prices - Price source
+ * @param currency - Fiat currency code
+ */
+async function attachFiatValues(portfolio: Portfolio, prices: PriceOracle, currency: string): Promise<void> {
+  const decimals = getCurrencyDecimals(currency);
+  // Unknown tokens have guessed decimals, so a quote cannot be applied safely
+  const holdings = [portfolio.stx, ...portfolio.fungibleTokens].filter(holding => holding.known);
+
+  const quotes = await Promise.all(holdings.map(holding => prices.getQuote(holding.assetId, currency)));
+
+  let total = DecimalAmount.zero(decimals, currency);
+  holdings.forEach((holding, i) => {
+    const quote = quotes[i];
+    if (!quote) return;
+    holding.fiatValue = holding.balance.convert(quote.price, decimals, currency);
+    total = total.add(holding.fiatValue);
+  });
+
+  portfolio.currency = currency;
+  portfolio.totalFiatValue = total;
+}
+
+/**
+ * Compares amounts that may have different decimals
+ */
+function compareAmounts(a: DecimalAmount, b: DecimalAmount): -1 | 0 | 1 {
+  const decimals = Math.max(a.decimals, b.decimals);
+  return a.rescale(decimals).compare(b.rescale(decimals));
+}
@@ -0,0 +1,317 @@
+/**
+ * Price Utilities
+ * Pluggable price oracles and exact token/fiat conversion
+ */
+
+import { DecimalAmount, RoundingMode } from './tokens';
+import { TokenRegistry, getDefaultTokenRegistry } from './tokenregistry';
+
+export interface PriceQuote {
+  base: string;
+  quote: string;
+  price: string;
+  timestamp: number;
+  source?: string;
+}
+
+export interface PriceOracle {
+  /**
+   * Gets the price of one unit of `base` in units of `quote`
+   * @param base - Asset identifier, "stx", or fiat code
+   * @param quote - Asset identifier, "stx", or fiat code
+   */
+  getQuote(base: string, quote: string): Promise<PriceQuote | null>;
+}
+
+export interface ConversionResult {
+  amount: DecimalAmount;
+  quote: PriceQuote;
+}
+
+export interface HttpPriceOracleOptions {
+  baseUrl: string;
+  fetch?: typeof fetch;
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds, 0 to disable (default: 10000) */
+  timeout?: number;
+  buildUrl?: (baseUrl: string, base: string, quote: string) => string;
+  parse?: (body: unknown, base: string, quote: string) => PriceQuote | null;
+}
+
+// Decimal places kept when inverting a quote
+const INVERSE_PRICE_DECIMALS = 18;
+
+/**
+ * Checks if an identifier is an ISO 4217 fiat currency code (e.g. "USD")
+ * @param asset - Asset identifier or currency code
+ */
+export function isFiatCurrency(asset: string): boolean {
+  return /^[A-Z]{3}$/.test(asset);
+}
+
+/**
+ * Gets the number of minor-unit decimals for a fiat currency (e.g. 2 for USD, 0 for JPY)
+ * @param currency - ISO 4217 currency code
+ */
+export function getCurrencyDecimals(currency: string): number {
+  const { maximumFractionDigits = 2 } = new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency,
+  }).resolvedOptions();
+  return maximumFractionDigits;
+}
+
+/**
+ * In-memory oracle for fixed or manually refreshed prices. Quotes are also
+ * served in the inverse direction.
+ */
+export class StaticPriceOracle implements PriceOracle {
+  private readonly quotes = new Map<string, PriceQuote>();
+
+  /**
+   * @param quotes - Initial quotes
+   */
+  constructor(quotes: readonly PriceQuote[] = []) {
+    quotes.forEach(quote => this.quotes.set(pairKey(quote.base, quote.quote), { ...quote }));
+  }
+
+  /**
+   * Sets the price for a pair
+   * @param base - Base asset
+   * @param quote - Quote asset or fiat code
+   * @param price - Price as a decimal string or number
+   * @param timestamp - Unix timestamp in seconds (default: now)
+   */
+  setPrice(
+    base: string,
+    quote: string,
+    price: string | number,
+    timestamp: number = Math.floor(Date.now() / 1000)
+  ): PriceQuote {
+    const entry: PriceQuote = {
+      base,
+      quote,
+      price: DecimalAmount.parse(String(price), INVERSE_PRICE_DECIMALS).toString(),
+      timestamp,
+      source: 'static',
+    };
+    this.quotes.set(pairKey(base, quote), entry);
+    return entry;
+  }
+
+  async getQuote(base: string, quote: string): Promise<PriceQuote | null> {
+    const direct = this.quotes.get(pairKey(base, quote));
+    if (direct) return direct;
+
+    const inverse = this.quotes.get(pairKey(quote, base));
+    if (!inverse) return null;
+
+    const price = DecimalAmount.parse(inverse.price, INVERSE_PRICE_DECIMALS);
+    if (price.isZero()) return null;
+
+    return {
+      ...inverse,
+      base,
+      quote,
+      price: DecimalAmount.parse('1', INVERSE_PRICE_DECIMALS).div(price).toString(),
+    };
+  }
+}
+
+/**
+ * Oracle adapter for HTTP price providers. By default it requests
+ * `{baseUrl}/price?base=...&quote=...` and expects
+ * `{ "price": "1.23", "timestamp": 1700000000 }`; override `buildUrl` and
+ * `parse` to adapt other providers.
+ */
+export class HttpPriceOracle implements PriceOracle {
+  private readonly options: HttpPriceOracleOptions;
+
+  /**
+   * @param options - Provider URL, fetch implementation and response adapters
+   */
+  constructor(options: HttpPriceOracleOptions) {
+    this.options = options;
+  }
+
+  async getQuote(base: string, quote: string): Promise<PriceQuote | null> {
+    const {
+      baseUrl,
+      fetch: fetchFn = globalThis.fetch,
+      headers,
+      timeout = 10000,
+      buildUrl = defaultBuildUrl,
+      parse = defaultParse,
+    } = this.options;
+
+    const controller = new AbortController();
+    const timer = timeout ? setTimeout(() => controller.abort(), timeout) : undefined;
+
+    try {
+      const response = await fetchFn(buildUrl(baseUrl, base, quote), { headers, signal: controller.signal });
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`Price request failed for ${base}/${quote}: HTTP ${response.status}`);
+      }
+
+      return parse(await response.json(), base, quote);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`Price request timed out after ${timeout}ms for ${base}/${quote}`);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Converts a token amount into another token or a fiat currency
+ * @param amount - Amount to convert (raw units or a DecimalAmount)
+ * @param fromAsset - Asset identifier of the amount, or "stx"
+ * @param to - Target asset identifier, "stx", or fiat code (e.g. "USD")
+ * @param oracle - Price source
+ * @param options - Token registry and rounding mode
+ */
+export async function convertTokenAmount(
+  amount: DecimalAmount | bigint | number | string,
+  fromAsset: string,
+  to: string,
+  oracle: PriceOracle,
+  options: { registry?: TokenRegistry; rounding?: RoundingMode } = {}
+): Promise<ConversionResult> {
+  const { registry = getDefaultTokenRegistry(), rounding = 'half-up' } = options;
+
+  const source = resolveAmount(amount, fromAsset, registry);
+  const target = resolveUnit(to, registry);
+
+  const quote = await oracle.getQuote(fromAsset, to);
+  if (!quote) {
+    throw new Error(`No price available for ${fromAsset}/${to}`);
+  }
+
+  return {
+    amount: source.convert(quote.price, target.decimals, target.symbol, rounding),
+    quote,
+  };
+}
+
+/**
+ * Formats a token amount together with its fiat value,
+ * e.g. "1,234 STX (≈ $2,100.00)"
+ * @param amount - Amount to format (raw units or a DecimalAmount)
+ * @param assetId - Asset identifier, or "stx"
+ * @param oracle - Price source
+ * @param options - Fiat currency, locale, decimals and registry
+ */
+export async function formatTokenWithFiat(
+  amount: DecimalAmount | bigint | number | string,
+  assetId: string,
+  oracle: PriceOracle,
+  options: {
+    currency?: string;
+    locale?: string;
+    maxDecimals?: number;
+    registry?: TokenRegistry;
+  } = {}
+): Promise<string> {
+  const { currency = 'USD', locale = 'en-US', maxDecimals, registry = getDefaultTokenRegistry() } = options;
+
+  const source = resolveAmount(amount, assetId, registry);
+  const tokenText = source.format({ locale, maxDecimals, showSymbol: true });
+
+  const quote = await oracle.getQuote(assetId, currency);
+  if (!quote) return tokenText;
+
+  const fiat = source.convert(quote.price, resolveUnit(currency, registry).decimals, currency);
+  return `${tokenText} (≈ ${formatCurrency(fiat, currency, locale)})`;
+}
+
+/**
+ * Formats a fiat amount in the locale's currency pattern without converting
+ * it to a float: the digits come from the exact amount, the symbol and sign
+ * placement from Intl
+ * @param amount - Fiat amount
+ * @param currency - ISO 4217 currency code
+ * @param locale - Locale identifier
+ */
+function formatCurrency(amount: DecimalAmount, currency: string, locale: string): string {
+  const formatter = new Intl.NumberFormat(locale, { style: 'currency', currency });
+  const { minimumFractionDigits, maximumFractionDigits } = formatter.resolvedOptions();
+  const digits = amount.abs().format({
+    locale,
+    minDecimals: minimumFractionDigits,
+    maxDecimals: maximumFractionDigits,
+  });
+
+  let replaced = false;
+  return formatter
+    .formatToParts(amount.isNegative() ? -1 : 1)
+    .map(part => {
+      if (!['integer', 'group', 'decimal', 'fraction'].includes(part.type)) return part.value;
+      if (replaced) return '';
+      replaced = true;
+      return digits;
+    })
+    .join('');
+}
+
+/**
+ * Resolves an amount to a DecimalAmount with the asset's decimals and symbol
+ * @param amount - Raw units or a DecimalAmount
+ * @param assetId - Asset identifier, or "stx"
+ * @param registry - Token registry
+ */
+function resolveAmount(
+  amount: DecimalAmount | bigint | number | string,
+  assetId: string,
+  registry: TokenRegistry
+): DecimalAmount {
+  if (amount instanceof DecimalAmount) return amount;
+  const unit = resolveUnit(assetId, registry);
+  return DecimalAmount.fromRaw(amount, unit.decimals, unit.symbol);
+}
+
+/**
+ * Gets the decimals and symbol for a token or fiat currency
+ * @param asset - Asset identifier, "stx", or fiat code
+ * @param registry - Token registry
+ */
+function resolveUnit(asset: string, registry: TokenRegistry): { decimals: number; symbol: string } {
+  const token = registry.get(asset);
+  if (token) return { decimals: token.decimals, symbol: token.symbol };
+
+  if (isFiatCurrency(asset)) {
+    return { decimals: getCurrencyDecimals(asset), symbol: asset };
+  }
+
+  throw new Error(`Unknown token: ${asset}`);
+}
+
+function pairKey(base: string, quote: string): string {
+  return `${base}/${quote}`;
+}
+
+function defaultBuildUrl(baseUrl: string, base: string, quote: string): string {
+  // Resolve against a trailing slash so a path prefix in baseUrl is kept
+  const url = new URL('price', baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`);
+  url.searchParams.set('base', base);
+  url.searchParams.set('quote', quote);
+  return url.toString();
+}
+
+function defaultParse(body: unknown, base: string, quote: string): PriceQuote | null {
+  if (!body || typeof body !== 'object') return null;
+
+  const data = body as Record<string, unknown>;
+  if (typeof data.price !== 'string' && typeof data.price !== 'number') return null;
+
+  return {
+    base,
+    quote,
+    price: String(data.price),
+    timestamp: typeof data.timestamp === 'number' ? data.timestamp : Math.floor(Date.now() / 1000),
+    source: 'http',
+  };
+}
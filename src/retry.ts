@@ -0,0 +1,285 @@
+/**
+ * Retry and Rate Limiting
+ * Backoff policies, rate-limit header parsing and a token-bucket limiter for API calls
+ */
+
+export type JitterMode = 'full' | 'equal' | 'none';
+
+export interface RetryOptions {
+  /** Retries after the first attempt (default: 3) */
+  maxRetries?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  baseDelay?: number;
+  /** Upper bound for backoff delays; a longer Retry-After is not waited for (default: 30000) */
+  maxDelay?: number;
+  /** Backoff multiplier per attempt (default: 2) */
+  factor?: number;
+  jitter?: JitterMode;
+  /** HTTP statuses worth retrying */
+  retryStatuses?: readonly number[];
+  /** Retry timeouts and network failures (default: true) */
+  retryNetworkErrors?: boolean;
+  /**
+   * HTTP methods retried (default: GET and HEAD). Add POST only for endpoints
+   * where a repeated request is harmless, as a failed attempt may still have
+   * been processed (e.g. a broadcast transaction).
+   */
+  retryMethods?: readonly string[];
+  /** Random source in [0, 1), for tests */
+  random?: () => number;
+}
+
+export type RateLimitWindow = 'second' | 'minute' | 'hour' | 'day' | 'default';
+
+export interface RateLimitInfo {
+  window: RateLimitWindow;
+  limit?: number;
+  remaining?: number;
+  /** Seconds until the window resets */
+  resetSeconds?: number;
+}
+
+export interface TokenBucketOptions {
+  /** Maximum burst size */
+  capacity: number;
+  /** Tokens added per second */
+  refillRate: number;
+  /** Clock in milliseconds, for tests (default: Date.now) */
+  now?: () => number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryOptions, 'random'>> = {
+  maxRetries: 3,
+  baseDelay: 500,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: 'full',
+  retryStatuses: [408, 425, 429, 500, 502, 503, 504],
+  retryNetworkErrors: true,
+  retryMethods: ['GET', 'HEAD'],
+};
+
+const WINDOW_SECONDS: Record<RateLimitWindow, number> = {
+  second: 1,
+  minute: 60,
+  hour: 3600,
+  day: 86400,
+  default: 1,
+};
+
+/**
+ * Calculates the backoff delay before a retry
+ * @param attempt - Retry number, starting at 1
+ * @param options - Retry options
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempt: number, options: RetryOptions = {}): number {
+  const { baseDelay, maxDelay, factor, jitter } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const random = options.random ?? Math.random;
+
+  const delay = Math.min(baseDelay * factor ** (attempt - 1), maxDelay);
+
+  switch (jitter) {
+    case 'full':
+      return Math.floor(random() * delay);
+    case 'equal':
+      return Math.floor(delay / 2 + random() * (delay / 2));
+    default:
+      return delay;
+  }
+}
+
+/**
+ * Checks whether a failed request may be retried
+ * @param code - Error code ('http', 'timeout', 'network', ...)
+ * @param status - HTTP status (0 if no response)
+ * @param options - Retry options
+ */
+export function isRetryable(code: string, status: number, options: RetryOptions = {}): boolean {
+  const { retryStatuses, retryNetworkErrors } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  if (code === 'http') return retryStatuses.includes(status);
+  return retryNetworkErrors && (code === 'timeout' || code === 'network');
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date)
+ * @param headers - Response headers
+ * @param now - Current time in milliseconds (default: Date.now())
+ * @returns Delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(headers: Headers, now: number = Date.now()): number | undefined {
+  const value = headers.get('retry-after')?.trim();
+  if (!value) return undefined;
+
+  if (/^\d+(\.\d+)?$/.test(value)) return Math.ceil(Number(value) * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Parses `x-ratelimit-*` headers, including per-window variants such as
+ * `x-ratelimit-remaining-minute` sent by the Hiro API
+ * @param headers - Response headers
+ * @param now - Current time in milliseconds, for epoch reset values (default: Date.now())
+ * @returns One entry per window, in header order
+ */
+export function parseRateLimitHeaders(headers: Headers, now: number = Date.now()): RateLimitInfo[] {
+  const windows = new Map<RateLimitWindow, RateLimitInfo>();
+  const pattern = /^x-ratelimit-(limit|remaining|reset)(?:-(second|minute|hour|day))?$/;
+
+  headers.forEach((raw, name) => {
+    const match = pattern.exec(name.toLowerCase());
+    const value = Number(raw);
+    if (!match || !Number.isFinite(value)) return;
+
+    const window = (match[2] ?? 'default') as RateLimitWindow;
+    const info = windows.get(window) ?? { window };
+    if (match[1] === 'limit') info.limit = value;
+    if (match[1] === 'remaining') info.remaining = value;
+    // Large values are Unix timestamps rather than a number of seconds
+    if (match[1] === 'reset') info.resetSeconds = value > 1e9 ? Math.max(value - now / 1000, 0) : value;
+    windows.set(window, info);
+  });
+
+  return [...windows.values()];
+}
+
+/**
+ * Gets how long to hold requests after a response, based on exhausted
+ * rate-limit windows
+ * @param limits - Parsed rate-limit headers
+ * @returns Delay in milliseconds (0 if no window is exhausted)
+ */
+export function getRateLimitDelay(limits: readonly RateLimitInfo[]): number {
+  return limits.reduce((delay, info) => {
+    if (info.remaining === undefined || info.remaining > 0) return delay;
+    const seconds = info.resetSeconds ?? WINDOW_SECONDS[info.window];
+    return Math.max(delay, Math.ceil(seconds * 1000));
+  }, 0);
+}
+
+/**
+ * Client-side token-bucket limiter. Share one instance between clients to
+ * apply a single budget to all of their calls.
+ */
+export class TokenBucket {
+  readonly capacity: number;
+  readonly refillRate: number;
+  private readonly now: () => number;
+  private tokens: number;
+  private updatedAt: number;
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: TokenBucketOptions) {
+    const { capacity, refillRate, now = Date.now } = options;
+    if (!(capacity >= 1) || !(refillRate > 0)) {
+      throw new Error(`Invalid token bucket: capacity ${capacity}, refill rate ${refillRate}`);
+    }
+    this.capacity = capacity;
+    this.refillRate = refillRate;
+    this.now = now;
+    this.tokens = capacity;
+    this.updatedAt = now();
+  }
+
+  /**
+   * Tokens currently available
+   */
+  get available(): number {
+    this.refill();
+    return this.now() < this.pausedUntil ? 0 : Math.floor(this.tokens);
+  }
+
+  /**
+   * Takes tokens if available without waiting
+   * @param count - Tokens to take (default: 1)
+   * @returns true if the tokens were taken
+   */
+  tryTake(count: number = 1): boolean {
+    if (this.getWaitTime(count) > 0) return false;
+    this.tokens -= count;
+    return true;
+  }
+
+  /**
+   * Gets how long until tokens are available
+   * @param count - Tokens needed (default: 1)
+   * @returns Wait in milliseconds
+   */
+  getWaitTime(count: number = 1): number {
+    if (count > this.capacity) {
+      throw new Error(`Cannot take ${count} tokens from a bucket of ${this.capacity}`);
+    }
+    this.refill();
+    const pause = Math.max(this.pausedUntil - this.now(), 0);
+    const refill = this.tokens >= count ? 0 : ((count - this.tokens) / this.refillRate) * 1000;
+    return Math.ceil(Math.max(pause, refill));
+  }
+
+  /**
+   * Waits until tokens are available and takes them. Callers are served in order.
+   * @param count - Tokens to take (default: 1)
+   * @param signal - Aborts the wait, including while queued behind other callers
+   */
+  take(count: number = 1, signal?: AbortSignal): Promise<void> {
+    const turn = this.queue.then(async () => {
+      // A caller that gave up while queued takes nothing when its turn comes
+      if (signal?.aborted) throw signal.reason;
+      for (let wait = this.getWaitTime(count); wait > 0; wait = this.getWaitTime(count)) {
+        await sleep(wait, signal);
+      }
+      this.tokens -= count;
+    });
+    this.queue = turn.catch(() => undefined);
+    if (!signal) return turn;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(signal.reason);
+      turn.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Holds all callers for a while, e.g. after a 429 response
+   * @param ms - Pause in milliseconds
+   */
+  pauseFor(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, this.now() + ms);
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.refillRate);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Resolves after a delay, rejecting early if the signal is aborted
+ * @param ms - Delay in milliseconds
+ * @param signal - Abort signal
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -3,6 +3,7 @@
  * Functions for working with Stacks stacking and Proof of Transfer
  */
 
+import { BLOCK_TIME } from './constants';
 import { microStxToStx, stxToMicroStx } from './tokens';
 
 // PoX Constants
@@ -41,6 +42,33 @@ export interface StackingInfo {
   estimatedRewardBtc?: number;
 }
 
+export type BlockChain = 'bitcoin' | 'stacks';
+
+export interface BlockAnchor {
+  height: number;
+  /** Unix timestamp in seconds */
+  timestamp: number;
+}
+
+export interface BlockEstimate {
+  estimate: number;
+  earliest: number;
+  latest: number;
+}
+
+export interface BlockTimeRange {
+  blockTime: number;
+  minBlockTime: number;
+  maxBlockTime: number;
+}
+
+export interface BlockClockOptions {
+  bitcoin?: Partial<BlockTimeRange>;
+  stacks?: Partial<BlockTimeRange>;
+  /** Anchors kept per chain, most recent first (default: 32) */
+  maxAnchors?: number;
+}
+
 export interface CycleInfo {
   cycleNumber: number;
   startBlock: number;
@@ -51,6 +79,198 @@ export interface CycleInfo {
   phase: 'prepare' | 'reward';
 }
 
+// Fastest plausible Stacks block interval after Nakamoto, in seconds
+const STACKS_MIN_BLOCK_TIME = 1;
+
+/**
+ * Estimates block heights from dates and dates from block heights using
+ * known (height, timestamp) anchors. Estimates between anchors are
+ * interpolated; outside them the most recent observed block time is used
+ * (or the configured one with a single anchor). Ranges assume every block
+ * takes between the minimum and maximum block time.
+ */
+export class BlockClock {
+  private readonly anchors: Record<BlockChain, BlockAnchor[]> = { bitcoin: [], stacks: [] };
+  private readonly ranges: Record<BlockChain, BlockTimeRange>;
+  private readonly maxAnchors: number;
+
+  /**
+   * @param anchors - Initial anchors per chain
+   * @param options - Block time ranges per chain and anchor limit
+   */
+  constructor(
+    anchors: Partial<Record<BlockChain, readonly BlockAnchor[]>> = {},
+    options: BlockClockOptions = {}
+  ) {
+    this.ranges = {
+      bitcoin: {
+        blockTime: BLOCK_TIME.TARGET,
+        minBlockTime: BLOCK_TIME.MIN,
+        maxBlockTime: BLOCK_TIME.MAX,
+        ...options.bitcoin,
+      },
+      stacks: {
+        blockTime: BLOCK_TIME.NAKAMOTO,
+        minBlockTime: STACKS_MIN_BLOCK_TIME,
+        maxBlockTime: BLOCK_TIME.MAX,
+        ...options.stacks,
+      },
+    };
+    this.maxAnchors = options.maxAnchors ?? 32;
+
+    (Object.keys(anchors) as BlockChain[]).forEach(chain =>
+      anchors[chain]?.forEach(anchor => this.addAnchor(chain, anchor))
+    );
+  }
+
+  /**
+   * Adds or replaces the anchor for a height, e.g. from a fresh /v2/info or
+   * block response. Only the most recent `maxAnchors` anchors are kept.
+   * @param chain - Chain of the height
+   * @param anchor - Block height and its Unix timestamp in seconds
+   */
+  addAnchor(chain: BlockChain, anchor: BlockAnchor): this {
+    if (!Number.isInteger(anchor.height) || anchor.height < 0 || !Number.isFinite(anchor.timestamp)) {
+      throw new Error(`Invalid block anchor: ${anchor.height} @ ${anchor.timestamp}`);
+    }
+
+    const list = this.anchors[chain].filter(existing => existing.height !== anchor.height);
+    list.push({ height: anchor.height, timestamp: anchor.timestamp });
+    list.sort((a, b) => a.height - b.height);
+    this.anchors[chain] = list.slice(-this.maxAnchors);
+    return this;
+  }
+
+  /**
+   * Lists the anchors of a chain in height order
+   * @param chain - The chain
+   */
+  getAnchors(chain: BlockChain): BlockAnchor[] {
+    return this.anchors[chain].map(anchor => ({ ...anchor }));
+  }
+
+  /**
+   * Gets the current average block time of a chain in seconds, from the two
+   * most recent anchors or the configured block time
+   * @param chain - The chain
+   */
+  getBlockTime(chain: BlockChain): number {
+    const list = this.anchors[chain];
+    if (list.length >= 2) {
+      const [a, b] = list.slice(-2);
+      const observed = (b.timestamp - a.timestamp) / (b.height - a.height);
+      if (observed > 0) return observed;
+    }
+    return this.ranges[chain].blockTime;
+  }
+
+  /**
+   * Estimates when a block was (or will be) produced
+   * @param chain - Chain of the height
+   * @param height - Block height
+   * @returns Unix timestamps in seconds
+   */
+  estimateTimestamp(chain: BlockChain, height: number): BlockEstimate {
+    const list = this.requireAnchors(chain);
+    const { minBlockTime, maxBlockTime } = this.ranges[chain];
+
+    const exact = list.find(anchor => anchor.height === height);
+    if (exact) return { estimate: exact.timestamp, earliest: exact.timestamp, latest: exact.timestamp };
+
+    const prev = [...list].reverse().find(anchor => anchor.height < height);
+    const next = list.find(anchor => anchor.height > height);
+    const blockTime = this.getBlockTime(chain);
+
+    let estimate: number;
+    if (prev && next) {
+      const rate = (next.timestamp - prev.timestamp) / (next.height - prev.height);
+      estimate = prev.timestamp + (height - prev.height) * rate;
+    } else if (prev) {
+      estimate = prev.timestamp + (height - prev.height) * blockTime;
+    } else {
+      estimate = (next as BlockAnchor).timestamp - ((next as BlockAnchor).height - height) * blockTime;
+    }
+
+    const earliest = Math.max(
+      prev ? prev.timestamp + (height - prev.height) * minBlockTime : -Infinity,
+      next ? next.timestamp - (next.height - height) * maxBlockTime : -Infinity
+    );
+    const latest = Math.min(
+      prev ? prev.timestamp + (height - prev.height) * maxBlockTime : Infinity,
+      next ? next.timestamp - (next.height - height) * minBlockTime : Infinity
+    );
+
+    return {
+      estimate: Math.round(Math.min(Math.max(estimate, earliest), latest)),
+      earliest: Math.round(earliest),
+      latest: Math.round(latest),
+    };
+  }
+
+  /**
+   * Estimates the block height at a point in time
+   * @param chain - The chain
+   * @param time - Unix timestamp in seconds, or a Date
+   */
+  estimateHeight(chain: BlockChain, time: number | Date): BlockEstimate {
+    const list = this.requireAnchors(chain);
+    const { minBlockTime, maxBlockTime } = this.ranges[chain];
+    const timestamp = time instanceof Date ? time.getTime() / 1000 : time;
+
+    const prev = [...list].reverse().find(anchor => anchor.timestamp <= timestamp);
+    const next = list.find(anchor => anchor.timestamp > timestamp);
+    const blockTime = this.getBlockTime(chain);
+
+    let estimate: number;
+    if (prev && next) {
+      const rate = (next.height - prev.height) / (next.timestamp - prev.timestamp);
+      estimate = prev.height + (timestamp - prev.timestamp) * rate;
+    } else if (prev) {
+      estimate = prev.height + (timestamp - prev.timestamp) / blockTime;
+    } else {
+      estimate = (next as BlockAnchor).height - ((next as BlockAnchor).timestamp - timestamp) / blockTime;
+    }
+
+    const earliest = Math.max(
+      prev ? prev.height + (timestamp - prev.timestamp) / maxBlockTime : -Infinity,
+      next ? next.height - (next.timestamp - timestamp) / minBlockTime : -Infinity,
+      0
+    );
+    const latest = Math.min(
+      prev ? prev.height + (timestamp - prev.timestamp) / minBlockTime : Infinity,
+      next ? next.height - (next.timestamp - timestamp) / maxBlockTime : Infinity
+    );
+
+    return {
+      estimate: Math.floor(Math.min(Math.max(estimate, earliest), latest)),
+      earliest: Math.floor(earliest),
+      latest: Math.floor(latest),
+    };
+  }
+
+  /**
+   * Estimates the seconds between two block heights
+   * @param chain - Chain of the heights
+   * @param fromHeight - Start height
+   * @param toHeight - End height
+   */
+  estimateDuration(chain: BlockChain, fromHeight: number, toHeight: number): number {
+    if (this.anchors[chain].length === 0) {
+      return (toHeight - fromHeight) * this.ranges[chain].blockTime;
+    }
+    const from = this.estimateTimestamp(chain, fromHeight).estimate;
+    return this.estimateTimestamp(chain, toHeight).estimate - from;
+  }
+
+  private requireAnchors(chain: BlockChain): BlockAnchor[] {
+    const list = this.anchors[chain];
+    if (list.length === 0) {
+      throw new Error(`No ${chain} block anchors; add one with addAnchor()`);
+    }
+    return list;
+  }
+}
+
 /**
  * Calculates the cycle number for a given block height
  * @param blockHeight - The block height
@@ -122,12 +342,13 @@ export function getBlocksUntilCycleEnd(
 
 /**
  * Calculates estimated time until cycle ends
- * @param currentBlock - Current block height
- * @param avgBlockTimeSeconds - Average block time in seconds (default 10 min)
+ * @param currentBlock - Current (Bitcoin) block height
+ * @param avgBlockTimeSeconds - Average block time in seconds (default 10 min),
+ *   or a BlockClock with Bitcoin anchors
  */
 export function getTimeUntilCycleEnd(
   currentBlock: number,
-  avgBlockTimeSeconds: number = 600
+  avgBlockTimeSeconds: number | BlockClock = 600
 ): {
   blocks: number;
   seconds: number;
@@ -136,7 +357,10 @@ export function getTimeUntilCycleEnd(
   days: number;
 } {
   const blocks = getBlocksUntilCycleEnd(currentBlock);
-  const seconds = blocks * avgBlockTimeSeconds;
+  const seconds =
+    avgBlockTimeSeconds instanceof BlockClock
+      ? avgBlockTimeSeconds.estimateDuration('bitcoin', currentBlock, currentBlock + blocks)
+      : blocks * avgBlockTimeSeconds;
   
   return {
     blocks,
@@ -179,11 +403,13 @@ export function calculateUnlockBlock(
  * @param amountStx - Amount being stacked in STX
  * @param lockPeriodCycles - Number of cycles to lock
  * @param estimatedApy - Estimated APY as decimal (e.g., 0.08 for 8%)
+ * @param stxToBtcRate - BTC per STX (e.g., from a PriceOracle quote)
  */
 export function estimateStackingRewards(
   amountStx: number,
   lockPeriodCycles: number,
-  estimatedApy: number = 0.08
+  estimatedApy: number = 0.08,
+  stxToBtcRate: number = 0.00002
 ): {
   estimatedBtcReward: number;
   estimatedUsdValue: number;
@@ -197,8 +423,7 @@ export function estimateStackingRewards(
   const annualizedReturn = amountStx * estimatedApy;
   const periodReturn = annualizedReturn * periodFraction;
   
-  // Convert to approximate BTC (assuming 1 STX ≈ 0.00002 BTC as example)
-  const stxToBtcRate = 0.00002;
+  // Convert to approximate BTC (defaults to 1 STX ≈ 0.00002 BTC as example)
   const estimatedBtcReward = periodReturn * stxToBtcRate;
   
   return {
@@ -0,0 +1,182 @@
+/**
+ * Supply Utilities
+ * STX coinbase emission, cumulative supply and inflation by Bitcoin block height
+ */
+
+import { HALVING_SCHEDULE, STX } from './constants';
+import { POX_CONSTANTS } from './stacking';
+
+export interface EmissionPhase {
+  /** First Bitcoin block height of the phase */
+  startHeight: number;
+  /** Coinbase reward per Bitcoin block in micro-STX */
+  reward: bigint;
+}
+
+export interface SupplyOptions {
+  schedule?: readonly EmissionPhase[];
+  genesisSupply?: bigint;
+}
+
+export interface SupplyPoint {
+  btcHeight: number;
+  reward: bigint;
+  emitted: bigint;
+  totalSupply: bigint;
+  percentOfMaxSupply: number;
+  annualInflation: number;
+}
+
+// Bitcoin block height of the Stacks 2.0 genesis block
+export const STACKS_GENESIS_BTC_HEIGHT = 666050;
+
+// Approximate STX supply at genesis, in micro-STX
+export const GENESIS_SUPPLY = 1_320_000_000n * 1_000_000n;
+
+// Bitcoin blocks per year (144 per day)
+const BLOCKS_PER_YEAR = POX_CONSTANTS.BLOCKS_PER_DAY * 365;
+
+// Lowest coinbase under the original schedule, reached after three halvings
+const LEGACY_HALVINGS = 3;
+
+/**
+ * Original Stacks 2.0 schedule: the reward halves every
+ * HALVING_SCHEDULE.BLOCKS_PER_HALVING blocks after genesis, three times
+ */
+export const LEGACY_STX_EMISSION_SCHEDULE: readonly EmissionPhase[] = Array.from(
+  { length: LEGACY_HALVINGS + 1 },
+  (_, i) => ({
+    startHeight: STACKS_GENESIS_BTC_HEIGHT + i * HALVING_SCHEDULE.BLOCKS_PER_HALVING,
+    reward: (BigInt(HALVING_SCHEDULE.INITIAL_BLOCK_REWARD) * BigInt(STX.MICRO_MULTIPLIER)) >> BigInt(i),
+  })
+);
+
+/**
+ * Current schedule (SIP-029): the first halving moves to Bitcoin block 945,000
+ * and later ones align with Bitcoin halvings, ending at 62.5 STX per block
+ */
+export const STX_EMISSION_SCHEDULE: readonly EmissionPhase[] = [
+  { startHeight: STACKS_GENESIS_BTC_HEIGHT, reward: 1_000_000_000n },
+  { startHeight: 945_000, reward: 500_000_000n },
+  { startHeight: 1_050_000, reward: 250_000_000n },
+  { startHeight: 1_260_000, reward: 125_000_000n },
+  { startHeight: 1_470_000, reward: 62_500_000n },
+];
+
+/**
+ * Gets the coinbase reward for a Bitcoin block height
+ * @param btcHeight - Bitcoin block height
+ * @param schedule - Emission schedule (default: STX_EMISSION_SCHEDULE)
+ * @returns Reward in micro-STX (0 before genesis)
+ */
+export function getCoinbaseReward(
+  btcHeight: number,
+  schedule: readonly EmissionPhase[] = STX_EMISSION_SCHEDULE
+): bigint {
+  let reward = 0n;
+  for (const phase of schedule) {
+    if (phase.startHeight > btcHeight) break;
+    reward = phase.reward;
+  }
+  return reward;
+}
+
+/**
+ * Calculates the STX emitted by coinbase rewards from genesis up to and
+ * including a Bitcoin block height. Assumes one coinbase per Bitcoin block,
+ * so it is an upper bound for periods with missed Stacks blocks.
+ * @param btcHeight - Bitcoin block height
+ * @param schedule - Emission schedule (default: STX_EMISSION_SCHEDULE)
+ * @returns Emitted amount in micro-STX
+ */
+export function getEmittedSupply(
+  btcHeight: number,
+  schedule: readonly EmissionPhase[] = STX_EMISSION_SCHEDULE
+): bigint {
+  let emitted = 0n;
+
+  schedule.forEach((phase, i) => {
+    if (phase.startHeight > btcHeight) return;
+    const next = schedule[i + 1];
+    const lastHeight = next ? Math.min(next.startHeight - 1, btcHeight) : btcHeight;
+    emitted += BigInt(lastHeight - phase.startHeight + 1) * phase.reward;
+  });
+
+  return emitted;
+}
+
+/**
+ * Calculates the total STX supply (genesis allocation plus emission) at a
+ * Bitcoin block height
+ * @param btcHeight - Bitcoin block height
+ * @param options - Emission schedule and genesis supply in micro-STX
+ * @returns Total supply in micro-STX
+ */
+export function getTotalSupply(btcHeight: number, options: SupplyOptions = {}): bigint {
+  const { schedule = STX_EMISSION_SCHEDULE, genesisSupply = GENESIS_SUPPLY } = options;
+  return genesisSupply + getEmittedSupply(btcHeight, schedule);
+}
+
+/**
+ * Calculates the inflation rate over the period following a Bitcoin block
+ * height, as a fraction of the supply at that height
+ * @param btcHeight - Bitcoin block height
+ * @param period - 'cycle', 'year' or a number of Bitcoin blocks
+ * @param options - Emission schedule and genesis supply
+ */
+export function getInflationRate(
+  btcHeight: number,
+  period: 'cycle' | 'year' | number = 'year',
+  options: SupplyOptions = {}
+): number {
+  const blocks =
+    period === 'cycle' ? POX_CONSTANTS.CYCLE_LENGTH : period === 'year' ? BLOCKS_PER_YEAR : period;
+
+  if (!Number.isInteger(blocks) || blocks <= 0) {
+    throw new Error(`Invalid inflation period: ${period}`);
+  }
+
+  const supply = getTotalSupply(btcHeight, options);
+  if (supply === 0n) return 0;
+
+  const emitted = getTotalSupply(btcHeight + blocks, options) - supply;
+  return Number((emitted * 100_000_000n) / supply) / 100_000_000;
+}
+
+/**
+ * Projects the supply curve between two Bitcoin block heights
+ * @param fromHeight - First Bitcoin block height
+ * @param toHeight - Last Bitcoin block height (inclusive)
+ * @param stepBlocks - Blocks between points (default: one year)
+ * @param options - Emission schedule and genesis supply
+ */
+export function projectSupply(
+  fromHeight: number,
+  toHeight: number,
+  stepBlocks: number = BLOCKS_PER_YEAR,
+  options: SupplyOptions = {}
+): SupplyPoint[] {
+  if (!Number.isInteger(stepBlocks) || stepBlocks <= 0) {
+    throw new Error(`Invalid step: ${stepBlocks}`);
+  }
+  if (toHeight < fromHeight) {
+    throw new Error(`Invalid range: ${fromHeight} to ${toHeight}`);
+  }
+
+  const { schedule = STX_EMISSION_SCHEDULE } = options;
+  const points: SupplyPoint[] = [];
+
+  for (let btcHeight = fromHeight; btcHeight <= toHeight; btcHeight += stepBlocks) {
+    const totalSupply = getTotalSupply(btcHeight, options);
+    points.push({
+      btcHeight,
+      reward: getCoinbaseReward(btcHeight, schedule),
+      emitted: getEmittedSupply(btcHeight, schedule),
+      totalSupply,
+      percentOfMaxSupply: Number((totalSupply * 10000n) / STX.MAX_SUPPLY) / 100,
+      annualInflation: getInflationRate(btcHeight, 'year', options),
+    });
+  }
+
+  return points;
+}
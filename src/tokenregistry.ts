@@ -0,0 +1,278 @@
+/**
+ * Token Registry
+ * SIP-010 token metadata keyed by asset identifier
+ */
+
+import { parsePrincipal } from './address';
+import { SBTC, STX } from './constants';
+import { DecimalAmount, FormatAmountOptions } from './tokens';
+
+// Pseudo asset identifier for the native STX token
+export const STX_ASSET_ID = 'stx';
+
+export interface TokenInfo {
+  assetId: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  image?: string;
+  verified: boolean;
+}
+
+export interface TokenRegistryJson {
+  version: 1;
+  tokens: TokenInfo[];
+}
+
+export interface AssetIdentifier {
+  contractId: string;
+  contractAddress: string;
+  contractName: string;
+  assetName: string;
+}
+
+/**
+ * Well-known tokens bundled with the library
+ */
+export const KNOWN_TOKENS: readonly TokenInfo[] = [
+  {
+    assetId: STX_ASSET_ID,
+    name: STX.NAME,
+    symbol: STX.SYMBOL,
+    decimals: STX.DECIMALS,
+    verified: true,
+  },
+  {
+    assetId: `${SBTC.CONTRACT_MAINNET}::sbtc-token`,
+    name: SBTC.NAME,
+    symbol: SBTC.SYMBOL,
+    decimals: SBTC.DECIMALS,
+    verified: true,
+  },
+  {
+    assetId: 'SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR.usda-token::usda',
+    name: 'USDA',
+    symbol: 'USDA',
+    decimals: 6,
+    verified: true,
+  },
+  {
+    assetId: 'SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR.arkadiko-token::diko',
+    name: 'Arkadiko Token',
+    symbol: 'DIKO',
+    decimals: 6,
+    verified: true,
+  },
+  {
+    assetId: 'SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM.token-alex::alex',
+    name: 'ALEX Token',
+    symbol: 'ALEX',
+    decimals: 8,
+    verified: true,
+  },
+  {
+    assetId: 'SP1Y5YSTAHZ88XYK1VPDH24GY0HPX5J4JECTMY4A1.velar-token::velar',
+    name: 'Velar',
+    symbol: 'VELAR',
+    decimals: 6,
+    verified: true,
+  },
+];
+
+/**
+ * Parses a fungible asset identifier
+ * @param assetId - Asset identifier (e.g., "SP123.my-token::my-token")
+ */
+export function parseAssetIdentifier(assetId: string): AssetIdentifier | null {
+  if (!assetId || typeof assetId !== 'string') return null;
+
+  const [contractId, assetName, ...rest] = assetId.split('::');
+  if (!assetName || rest.length > 0) return null;
+  if (!/^[a-zA-Z][a-zA-Z0-9_!?+<>=/*-]*$/.test(assetName)) return null;
+
+  const parsed = parsePrincipal(contractId);
+  if (!parsed.isValid || parsed.principal.kind !== 'contract') return null;
+
+  return {
+    contractId,
+    contractAddress: parsed.principal.address,
+    contractName: parsed.principal.contractName,
+    assetName,
+  };
+}
+
+/**
+ * Builds a fungible asset identifier
+ * @param contractId - Token contract ID
+ * @param assetName - Asset name defined by `define-fungible-token`
+ */
+export function buildAssetIdentifier(contractId: string, assetName: string): string {
+  return `${contractId}::${assetName}`;
+}
+
+/**
+ * In-memory registry of token metadata keyed by asset identifier
+ */
+export class TokenRegistry {
+  private readonly tokens = new Map<string, TokenInfo>();
+
+  /**
+   * @param tokens - Initial tokens to register
+   */
+  constructor(tokens: readonly TokenInfo[] = []) {
+    tokens.forEach(token => this.register(token));
+  }
+
+  /**
+   * Creates a registry seeded with the bundled well-known tokens
+   */
+  static withDefaults(): TokenRegistry {
+    return new TokenRegistry(KNOWN_TOKENS);
+  }
+
+  /**
+   * Restores a registry from its JSON representation
+   * @param json - JSON string or parsed object produced by `toJSON`
+   */
+  static fromJSON(json: string | TokenRegistryJson): TokenRegistry {
+    const data = typeof json === 'string' ? (JSON.parse(json) as TokenRegistryJson) : json;
+
+    if (!data || data.version !== 1 || !Array.isArray(data.tokens)) {
+      throw new Error('Invalid token registry JSON: expected { version: 1, tokens: [...] }');
+    }
+
+    return new TokenRegistry(data.tokens);
+  }
+
+  /**
+   * Number of registered tokens
+   */
+  get size(): number {
+    return this.tokens.size;
+  }
+
+  /**
+   * Registers or replaces a token
+   * @param token - Token metadata
+   */
+  register(token: TokenInfo): TokenInfo {
+    if (token.assetId !== STX_ASSET_ID && !parseAssetIdentifier(token.assetId)) {
+      throw new Error(`Invalid asset identifier: ${token.assetId}`);
+    }
+    if (!Number.isInteger(token.decimals) || token.decimals < 0) {
+      throw new Error(`Invalid decimals for ${token.assetId}: ${token.decimals}`);
+    }
+    if (!token.symbol) {
+      throw new Error(`Missing symbol for ${token.assetId}`);
+    }
+
+    const stored: TokenInfo = { ...token, verified: token.verified ?? false };
+    this.tokens.set(assetKey(token.assetId), stored);
+    return stored;
+  }
+
+  /**
+   * Looks up a token by asset identifier
+   * @param assetId - Asset identifier, or "stx"
+   */
+  get(assetId: string): TokenInfo | undefined {
+    return this.tokens.get(assetKey(assetId));
+  }
+
+  /**
+   * Checks if a token is registered
+   * @param assetId - Asset identifier, or "stx"
+   */
+  has(assetId: string): boolean {
+    return this.tokens.has(assetKey(assetId));
+  }
+
+  /**
+   * Removes a token from the registry
+   * @param assetId - Asset identifier
+   * @returns true if a token was removed
+   */
+  remove(assetId: string): boolean {
+    return this.tokens.delete(assetKey(assetId));
+  }
+
+  /**
+   * Finds all tokens with a symbol (symbols are not unique)
+   * @param symbol - Token symbol (case-insensitive)
+   */
+  findBySymbol(symbol: string): TokenInfo[] {
+    const target = symbol.toUpperCase();
+    return this.list().filter(token => token.symbol.toUpperCase() === target);
+  }
+
+  /**
+   * Finds all tokens issued by a contract
+   * @param contractId - Token contract ID
+   */
+  findByContract(contractId: string): TokenInfo[] {
+    const target = assetKey(contractId);
+    return this.list().filter(token => assetKey(token.assetId).split('::')[0] === target);
+  }
+
+  /**
+   * Lists all tokens in registration order
+   */
+  list(): TokenInfo[] {
+    return Array.from(this.tokens.values());
+  }
+
+  /**
+   * Serialises the registry to a JSON-compatible object
+   */
+  toJSON(): TokenRegistryJson {
+    return { version: 1, tokens: this.list() };
+  }
+}
+
+let defaultRegistry: TokenRegistry | null = null;
+
+/**
+ * Gets the shared registry seeded with the bundled tokens. Tokens registered
+ * on it are visible to every caller that relies on the default registry.
+ */
+export function getDefaultTokenRegistry(): TokenRegistry {
+  if (!defaultRegistry) defaultRegistry = TokenRegistry.withDefaults();
+  return defaultRegistry;
+}
+
+/**
+ * Formats a raw token amount, looking up decimals and symbol by asset identifier
+ * @param amount - Raw token amount
+ * @param assetId - Asset identifier, or "stx"
+ * @param options - Formatting options and an optional registry
+ */
+export function formatTokenByAssetId(
+  amount: bigint | number | string,
+  assetId: string,
+  options: FormatAmountOptions & { registry?: TokenRegistry } = {}
+): string {
+  const { registry = getDefaultTokenRegistry(), showSymbol = true, ...formatOptions } = options;
+  const token = registry.get(assetId);
+
+  if (!token) {
+    throw new Error(`Unknown token: ${assetId}`);
+  }
+
+  return DecimalAmount.fromRaw(amount, token.decimals, token.symbol).format({
+    ...formatOptions,
+    showSymbol,
+  });
+}
+
+/**
+ * Builds the lookup key for an asset identifier (the address part is
+ * case-insensitive, contract and asset names are not)
+ * @param assetId - Asset identifier or contract ID
+ */
+function assetKey(assetId: string): string {
+  if (assetId.toLowerCase() === STX_ASSET_ID) return STX_ASSET_ID;
+
+  const dot = assetId.indexOf('.');
+  if (dot === -1) return assetId.toUpperCase();
+  return assetId.slice(0, dot).toUpperCase() + assetId.slice(dot);
+}
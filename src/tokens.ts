@@ -10,7 +10,7 @@ export interface TokenAmount {
   symbol: string;
 }
 
-// Common token decimals
+// Common token decimals (symbols can collide; see TokenRegistry)
 export const TOKEN_DECIMALS = {
   STX: 6,
   sBTC: 8,
@@ -20,13 +20,514 @@ export const TOKEN_DECIMALS = {
   VELAR: 6,
 } as const;
 
+export type RoundingMode =
+  | 'down'
+  | 'up'
+  | 'floor'
+  | 'ceil'
+  | 'half-up'
+  | 'half-down'
+  | 'half-even';
+
+export interface FormatAmountOptions {
+  maxDecimals?: number;
+  minDecimals?: number;
+  locale?: string;
+  rounding?: RoundingMode;
+  showSymbol?: boolean;
+  notation?: 'standard' | 'compact' | 'scientific';
+  compactDisplay?: 'short' | 'long';
+  signDisplay?: 'auto' | 'always' | 'exceptZero' | 'never';
+  significantDigits?: number;
+  showDust?: boolean;
+}
+
+interface LocaleSymbols {
+  decimal: string;
+  group: string;
+  minusSign: string;
+  plusSign: string;
+  digits: string[];
+}
+
+type AmountInput = DecimalAmount | bigint | number | string;
+
+/**
+ * Immutable token amount backed by an exact bigint in raw (smallest) units.
+ * Rounding modes: 'down' (toward zero), 'up' (away from zero), 'floor',
+ * 'ceil', and the 'half-*' variants, where 'half-up' rounds ties away from zero.
+ */
+export class DecimalAmount implements TokenAmount {
+  readonly raw: bigint;
+  readonly decimals: number;
+  readonly symbol: string;
+
+  /**
+   * @param raw - Amount in raw units
+   * @param decimals - Number of decimals for the token
+   * @param symbol - Token symbol
+   */
+  constructor(raw: bigint, decimals: number = 6, symbol: string = '') {
+    if (!Number.isInteger(decimals) || decimals < 0) {
+      throw new Error(`Invalid decimals: ${decimals}`);
+    }
+    this.raw = raw;
+    this.decimals = decimals;
+    this.symbol = symbol;
+  }
+
+  /**
+   * Creates an amount from raw units
+   * @param raw - Amount in raw units
+   * @param decimals - Number of decimals for the token
+   * @param symbol - Token symbol
+   */
+  static fromRaw(
+    raw: bigint | number | string,
+    decimals: number = 6,
+    symbol: string = ''
+  ): DecimalAmount {
+    return new DecimalAmount(typeof raw === 'bigint' ? raw : BigInt(raw), decimals, symbol);
+  }
+
+  /**
+   * Parses a decimal string (e.g. "1234.5", "-0.000001", "1e3") without
+   * going through floating point
+   * @param value - Decimal string in token units
+   * @param decimals - Number of decimals for the token
+   * @param symbol - Token symbol
+   * @param rounding - How to round digits beyond `decimals`
+   */
+  static parse(
+    value: string,
+    decimals: number = 6,
+    symbol: string = '',
+    rounding: RoundingMode = 'half-up'
+  ): DecimalAmount {
+    const { coefficient, scale } = parseDecimal(value, decimals);
+    return new DecimalAmount(rescale(coefficient, scale, decimals, rounding), decimals, symbol);
+  }
+
+  /**
+   * Parses user input formatted for a locale (e.g. "1.234,56" in de-DE),
+   * ignoring group separators, whitespace and an optional symbol
+   * @param input - Locale-formatted amount
+   * @param decimals - Number of decimals for the token
+   * @param options - Locale, token symbol and rounding for excess digits
+   */
+  static parseFormatted(
+    input: string,
+    decimals: number = 6,
+    options: { locale?: string; symbol?: string; rounding?: RoundingMode } = {}
+  ): DecimalAmount {
+    const { locale = 'en-US', symbol = '', rounding = 'half-up' } = options;
+    const symbols = getLocaleSymbols(locale);
+
+    let cleaned = input.trim();
+    if (symbol) {
+      cleaned = cleaned.split(symbol).join('');
+    }
+    cleaned = cleaned
+      .replace(/\s/g, '')
+      .split(symbols.group).join('')
+      .split(symbols.minusSign).join('-')
+      .split(symbols.plusSign).join('+')
+      .replace(/./g, char => {
+        const digit = symbols.digits.indexOf(char);
+        return digit === -1 ? char : String(digit);
+      })
+      .split(symbols.decimal).join('.');
+
+    return DecimalAmount.parse(cleaned, decimals, symbol, rounding);
+  }
+
+  /**
+   * Creates a zero amount
+   * @param decimals - Number of decimals for the token
+   * @param symbol - Token symbol
+   */
+  static zero(decimals: number = 6, symbol: string = ''): DecimalAmount {
+    return new DecimalAmount(0n, decimals, symbol);
+  }
+
+  /**
+   * Locale-formatted amount (en-US, all significant decimals)
+   */
+  get formatted(): string {
+    return this.format();
+  }
+
+  /**
+   * Adds another amount
+   * @param other - Amount with the same decimals, or raw units
+   */
+  add(other: DecimalAmount | bigint): DecimalAmount {
+    return this.with(this.raw + this.rawOf(other));
+  }
+
+  /**
+   * Subtracts another amount
+   * @param other - Amount with the same decimals, or raw units
+   */
+  sub(other: DecimalAmount | bigint): DecimalAmount {
+    return this.with(this.raw - this.rawOf(other));
+  }
+
+  /**
+   * Multiplies by a factor
+   * @param factor - Decimal factor (e.g. "1.5", 0.25, 3n, or another amount)
+   * @param rounding - How to round the result to raw units
+   */
+  mul(factor: AmountInput, rounding: RoundingMode = 'half-up'): DecimalAmount {
+    const { coefficient, scale } = toDecimal(factor);
+    return this.with(divideWithRounding(this.raw * coefficient, 10n ** BigInt(scale), rounding));
+  }
+
+  /**
+   * Divides by a divisor
+   * @param divisor - Decimal divisor (e.g. "1.5", 4, 3n, or another amount)
+   * @param rounding - How to round the result to raw units
+   */
+  div(divisor: AmountInput, rounding: RoundingMode = 'half-up'): DecimalAmount {
+    const { coefficient, scale } = toDecimal(divisor);
+    if (coefficient === 0n) throw new Error('Division by zero');
+    return this.with(divideWithRounding(this.raw * 10n ** BigInt(scale), coefficient, rounding));
+  }
+
+  /**
+   * Converts to a different number of decimals
+   * @param decimals - Target number of decimals
+   * @param rounding - How to round when reducing decimals
+   */
+  rescale(decimals: number, rounding: RoundingMode = 'half-up'): DecimalAmount {
+    return new DecimalAmount(rescale(this.raw, this.decimals, decimals, rounding), decimals, this.symbol);
+  }
+
+  /**
+   * Converts to another token or currency at an exchange rate, rounding once
+   * @param rate - Units of the target per unit of this amount (e.g. "0.85")
+   * @param decimals - Decimals of the target
+   * @param symbol - Symbol of the target
+   * @param rounding - How to round the result to raw units
+   */
+  convert(
+    rate: AmountInput,
+    decimals: number,
+    symbol: string = '',
+    rounding: RoundingMode = 'half-up'
+  ): DecimalAmount {
+    const { coefficient, scale } = toDecimal(rate);
+    const numerator = this.raw * coefficient * 10n ** BigInt(decimals);
+    const denominator = 10n ** BigInt(scale + this.decimals);
+    return new DecimalAmount(divideWithRounding(numerator, denominator, rounding), decimals, symbol);
+  }
+
+  /**
+   * Rounds to a number of decimal places, keeping the token decimals
+   * @param places - Decimal places to keep
+   * @param rounding - Rounding mode
+   */
+  round(places: number, rounding: RoundingMode = 'half-up'): DecimalAmount {
+    if (places >= this.decimals) return this;
+    const factor = 10n ** BigInt(this.decimals - places);
+    return this.with(divideWithRounding(this.raw, factor, rounding) * factor);
+  }
+
+  /**
+   * Rounds to a number of significant digits
+   * @param digits - Significant digits to keep
+   * @param rounding - Rounding mode
+   */
+  roundSignificant(digits: number, rounding: RoundingMode = 'half-up'): DecimalAmount {
+    if (!Number.isInteger(digits) || digits < 1) {
+      throw new Error(`Invalid significant digits: ${digits}`);
+    }
+    const length = (this.raw < 0n ? -this.raw : this.raw).toString().length;
+    if (length <= digits) return this;
+
+    const factor = 10n ** BigInt(length - digits);
+    return this.with(divideWithRounding(this.raw, factor, rounding) * factor);
+  }
+
+  negate(): DecimalAmount {
+    return this.with(-this.raw);
+  }
+
+  abs(): DecimalAmount {
+    return this.raw < 0n ? this.negate() : this;
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.raw < 0n;
+  }
+
+  /**
+   * Compares with another amount
+   * @param other - Amount with the same decimals, or raw units
+   * @returns -1 if this < other, 0 if equal, 1 if this > other
+   */
+  compare(other: DecimalAmount | bigint): -1 | 0 | 1 {
+    return compareTokenAmounts(this.raw, this.rawOf(other));
+  }
+
+  eq(other: DecimalAmount | bigint): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lt(other: DecimalAmount | bigint): boolean {
+    return this.compare(other) < 0;
+  }
+
+  gt(other: DecimalAmount | bigint): boolean {
+    return this.compare(other) > 0;
+  }
+
+  /**
+   * Formats the amount with locale grouping. Standard notation is exact;
+   * compact ("1.2M", "1,2 Mio.") and scientific notation go through the
+   * nearest number since they only show a few significant digits.
+   * With `showDust`, non-zero amounts that round to zero are shown as
+   * "<0.000001" (the smallest displayable unit).
+   * @param options - Decimal bounds, locale, rounding, notation, sign and symbol display
+   */
+  format(options: FormatAmountOptions = {}): string {
+    const {
+      maxDecimals = this.decimals,
+      minDecimals = 0,
+      locale = 'en-US',
+      rounding = 'half-up',
+      showSymbol = false,
+      notation = 'standard',
+      compactDisplay = 'short',
+      signDisplay = 'auto',
+      significantDigits,
+      showDust = false,
+    } = options;
+
+    const places = Math.min(maxDecimals, this.decimals);
+    let rounded = this.round(places, rounding);
+    if (significantDigits !== undefined) {
+      rounded = rounded.roundSignificant(significantDigits, rounding);
+    }
+
+    const symbols = getLocaleSymbols(locale);
+    const withSymbol = (text: string) =>
+      showSymbol && this.symbol ? `${text} ${this.symbol}` : text;
+
+    if (showDust && rounded.isZero() && !this.isZero()) {
+      const smallest = new DecimalAmount(1n, places).format({ locale });
+      return withSymbol(this.isNegative() ? `>${symbols.minusSign}${smallest}` : `<${smallest}`);
+    }
+
+    if (notation !== 'standard') {
+      const formatter = new Intl.NumberFormat(locale, {
+        notation,
+        compactDisplay,
+        signDisplay,
+        ...(significantDigits !== undefined
+          ? { maximumSignificantDigits: significantDigits }
+          : options.maxDecimals !== undefined
+            ? { maximumFractionDigits: places, minimumFractionDigits: Math.min(minDecimals, places) }
+            : {}),
+      });
+      return withSymbol(formatter.format(rounded.toNumber()));
+    }
+
+    const negative = rounded.raw < 0n;
+    const digits = (negative ? -rounded.raw : rounded.raw).toString().padStart(this.decimals + 1, '0');
+
+    const integerPart = BigInt(digits.slice(0, digits.length - this.decimals));
+    let fraction = digits.slice(digits.length - this.decimals, digits.length - this.decimals + places);
+    while (fraction.length > minDecimals && fraction.endsWith('0')) {
+      fraction = fraction.slice(0, -1);
+    }
+    fraction = fraction.padEnd(minDecimals, '0');
+
+    let sign = '';
+    if (negative && signDisplay !== 'never') sign = symbols.minusSign;
+    else if (!negative && signDisplay === 'always') sign = symbols.plusSign;
+    else if (!negative && signDisplay === 'exceptZero' && !rounded.isZero()) sign = symbols.plusSign;
+
+    const integer = new Intl.NumberFormat(locale).format(integerPart);
+    const localizedFraction = fraction.replace(/\d/g, d => symbols.digits[Number(d)]);
+
+    return withSymbol(
+      sign + integer + (localizedFraction ? symbols.decimal + localizedFraction : '')
+    );
+  }
+
+  /**
+   * Plain decimal representation (e.g. "-1234.5"), suitable for re-parsing
+   */
+  toString(): string {
+    const negative = this.raw < 0n;
+    const digits = (negative ? -this.raw : this.raw).toString().padStart(this.decimals + 1, '0');
+    const integer = digits.slice(0, digits.length - this.decimals);
+    const fraction = digits.slice(digits.length - this.decimals).replace(/0+$/, '');
+    return `${negative ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''}`;
+  }
+
+  /**
+   * Nearest JavaScript number (may lose precision for large amounts)
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): { raw: string; decimals: number; symbol: string } {
+    return { raw: this.raw.toString(), decimals: this.decimals, symbol: this.symbol };
+  }
+
+  private with(raw: bigint): DecimalAmount {
+    return new DecimalAmount(raw, this.decimals, this.symbol);
+  }
+
+  private rawOf(other: DecimalAmount | bigint): bigint {
+    if (typeof other === 'bigint') return other;
+    if (other.decimals !== this.decimals) {
+      throw new Error(`Decimals mismatch: ${this.decimals} vs ${other.decimals}`);
+    }
+    return other.raw;
+  }
+}
+
+/**
+ * Divides two bigints with the given rounding mode
+ * @param numerator - The numerator
+ * @param denominator - The denominator (non-zero)
+ * @param rounding - Rounding mode
+ */
+export function divideWithRounding(
+  numerator: bigint,
+  denominator: bigint,
+  rounding: RoundingMode = 'half-up'
+): bigint {
+  if (denominator === 0n) throw new Error('Division by zero');
+  if (denominator < 0n) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) return quotient;
+
+  const away = numerator < 0n ? quotient - 1n : quotient + 1n;
+  const positive = numerator > 0n;
+
+  switch (rounding) {
+    case 'down':
+      return quotient;
+    case 'up':
+      return away;
+    case 'floor':
+      return positive ? quotient : away;
+    case 'ceil':
+      return positive ? away : quotient;
+    default: {
+      const twice = (remainder < 0n ? -remainder : remainder) * 2n;
+      if (twice > denominator) return away;
+      if (twice < denominator) return quotient;
+      if (rounding === 'half-up') return away;
+      if (rounding === 'half-down') return quotient;
+      return quotient % 2n === 0n ? quotient : away;
+    }
+  }
+}
+
+/** Largest exponent accepted beyond the target decimals, so input cannot force huge powers of ten */
+const MAX_EXCESS_EXPONENT = 100;
+
+/**
+ * Parses a decimal string into an integer coefficient and a decimal scale
+ * @param value - Decimal string, optionally signed and with an exponent
+ * @param decimals - Decimals of the target, widening the accepted exponent range
+ */
+function parseDecimal(value: string, decimals: number = 0): { coefficient: bigint; scale: number } {
+  const match = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(value.trim());
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid decimal amount: ${value}`);
+  }
+
+  const [, sign, integer = '', fraction = '', exponent = '0'] = match;
+  if (Math.abs(Number(exponent)) > decimals + MAX_EXCESS_EXPONENT) {
+    throw new Error(`Invalid decimal amount: exponent out of range in ${value}`);
+  }
+  let coefficient = BigInt(`${integer}${fraction}` || '0');
+  let scale = fraction.length - Number(exponent);
+
+  if (scale < 0) {
+    coefficient *= 10n ** BigInt(-scale);
+    scale = 0;
+  }
+
+  return { coefficient: sign === '-' ? -coefficient : coefficient, scale };
+}
+
+/**
+ * Converts an arithmetic operand to an integer coefficient and scale
+ * @param value - Amount, bigint, number or decimal string
+ */
+function toDecimal(value: AmountInput): { coefficient: bigint; scale: number } {
+  if (value instanceof DecimalAmount) {
+    return { coefficient: value.raw, scale: value.decimals };
+  }
+  if (typeof value === 'bigint') {
+    return { coefficient: value, scale: 0 };
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error(`Invalid decimal amount: ${value}`);
+  }
+  return parseDecimal(String(value));
+}
+
+/**
+ * Moves a raw value from one decimal scale to another
+ * @param raw - Value at the source scale
+ * @param from - Source decimals
+ * @param to - Target decimals
+ * @param rounding - Rounding mode when reducing decimals
+ */
+function rescale(raw: bigint, from: number, to: number, rounding: RoundingMode): bigint {
+  if (to >= from) return raw * 10n ** BigInt(to - from);
+  return divideWithRounding(raw, 10n ** BigInt(from - to), rounding);
+}
+
+const localeSymbolCache = new Map<string, LocaleSymbols>();
+
+/**
+ * Gets the separators, signs and digits for a locale
+ * @param locale - Locale identifier
+ */
+function getLocaleSymbols(locale: string): LocaleSymbols {
+  const cached = localeSymbolCache.get(locale);
+  if (cached) return cached;
+
+  const formatter = new Intl.NumberFormat(locale, { useGrouping: false });
+  const parts = new Intl.NumberFormat(locale, { signDisplay: 'always' }).formatToParts(-1234567.5);
+  const plusParts = new Intl.NumberFormat(locale, { signDisplay: 'always' }).formatToParts(1);
+  const symbols: LocaleSymbols = {
+    decimal: parts.find(part => part.type === 'decimal')?.value ?? '.',
+    group: parts.find(part => part.type === 'group')?.value ?? ',',
+    minusSign: parts.find(part => part.type === 'minusSign')?.value ?? '-',
+    plusSign: plusParts.find(part => part.type === 'plusSign')?.value ?? '+',
+    digits: Array.from({ length: 10 }, (_, digit) => formatter.format(digit)),
+  };
+
+  localeSymbolCache.set(locale, symbols);
+  return symbols;
+}
+
 /**
  * Converts micro-STX to STX
  * @param microStx - Amount in micro-STX (1 STX = 1,000,000 micro-STX)
  */
 export function microStxToStx(microStx: bigint | number | string): number {
-  const value = typeof microStx === 'bigint' ? microStx : BigInt(microStx);
-  return Number(value) / 1_000_000;
+  return DecimalAmount.fromRaw(microStx, 6).toNumber();
 }
 
 /**
@@ -34,8 +535,7 @@ export function microStxToStx(microStx: bigint | number | string): number {
  * @param stx - Amount in STX
  */
 export function stxToMicroStx(stx: number | string): bigint {
-  const value = typeof stx === 'string' ? parseFloat(stx) : stx;
-  return BigInt(Math.round(value * 1_000_000));
+  return DecimalAmount.parse(String(stx), 6).raw;
 }
 
 /**
@@ -47,42 +547,28 @@ export function stxToMicroStx(stx: number | string): bigint {
 export function formatTokenAmount(
   amount: bigint | number | string,
   decimals: number = 6,
-  options: {
-    maxDecimals?: number;
-    minDecimals?: number;
-    locale?: string;
-  } = {}
+  options: Omit<FormatAmountOptions, 'showSymbol'> = {}
 ): string {
-  const { maxDecimals = decimals, minDecimals = 0, locale = 'en-US' } = options;
-  
-  const value = typeof amount === 'bigint' ? amount : BigInt(amount);
-  const divisor = BigInt(10 ** decimals);
-  const integerPart = value / divisor;
-  const fractionalPart = value % divisor;
-  
-  const fullNumber = Number(integerPart) + Number(fractionalPart) / (10 ** decimals);
-  
-  return fullNumber.toLocaleString(locale, {
-    minimumFractionDigits: minDecimals,
-    maximumFractionDigits: maxDecimals,
-  });
+  return DecimalAmount.fromRaw(amount, decimals).format(options);
 }
 
 /**
  * Parses a formatted token amount to raw value
  * @param formattedAmount - Formatted amount string
  * @param decimals - Number of decimals for the token
+ * @param locale - Locale the amount was formatted in (decides which of
+ *   "," and "." is the decimal separator)
  */
-export function parseTokenAmount(formattedAmount: string, decimals: number = 6): bigint {
-  // Remove any thousands separators and convert comma to dot for decimals
-  const cleaned = formattedAmount.replace(/,/g, '').replace(' ', '');
-  const value = parseFloat(cleaned);
-  
-  if (isNaN(value)) {
+export function parseTokenAmount(
+  formattedAmount: string,
+  decimals: number = 6,
+  locale: string = 'en-US'
+): bigint {
+  try {
+    return DecimalAmount.parseFormatted(formattedAmount, decimals, { locale }).raw;
+  } catch {
     throw new Error(`Invalid token amount: ${formattedAmount}`);
   }
-  
-  return BigInt(Math.round(value * (10 ** decimals)));
 }
 
 /**
@@ -301,6 +301,22 @@ export function cvSome(value: ClarityValue): ClarityValue {
   return { type: 'optional', value };
 }
 
+/**
+ * Creates a Clarity (ok ...) response value
+ * @param value - The wrapped Clarity value
+ */
+export function cvOk(value: ClarityValue): ClarityValue {
+  return { type: 'ok', value };
+}
+
+/**
+ * Creates a Clarity (err ...) response value
+ * @param value - The wrapped Clarity value
+ */
+export function cvErr(value: ClarityValue): ClarityValue {
+  return { type: 'err', value };
+}
+
 /**
  * Creates a Clarity list value
  * @param values - Array of Clarity values
@@ -0,0 +1,309 @@
+/**
+ * Vesting Utilities
+ * Linear, cliff and stepwise token unlock schedules keyed by block height
+ */
+
+import { BLOCK_TIME } from './constants';
+import { formatBlockDuration } from './format';
+
+export type VestingKind = 'linear' | 'cliff' | 'stepwise';
+
+export interface VestingSchedule {
+  kind: VestingKind;
+  /** Raw token amount (ignored for stepwise schedules with explicit tranches) */
+  totalAmount?: bigint;
+  startBlock: number;
+  /** Blocks after `startBlock` before anything can vest */
+  cliffBlocks?: number;
+  /** Blocks from `startBlock` until fully vested (linear and stepwise) */
+  durationBlocks?: number;
+  /** Blocks between unlocks (stepwise) */
+  periodBlocks?: number;
+  /** Explicit raw amount per period (stepwise) */
+  tranches?: readonly bigint[];
+}
+
+export interface VestingUnlock {
+  block: number;
+  amount: bigint;
+  cumulative: bigint;
+}
+
+export interface VestingStatus {
+  blockHeight: number;
+  total: bigint;
+  vested: bigint;
+  unvested: bigint;
+  claimed: bigint;
+  claimable: bigint;
+  percentVested: number;
+  endBlock: number;
+  isFullyVested: boolean;
+  nextUnlock?: VestingUnlock;
+}
+
+export interface VestingTimelineEntry extends VestingUnlock {
+  isUnlocked: boolean;
+  blocksUntil: number;
+  estimatedDate: Date;
+  timeUntil: string;
+}
+
+/**
+ * Calculates the raw amount vested at a block height. Linear schedules round
+ * down, as integer division in a Clarity contract would.
+ * @param schedule - Vesting schedule
+ * @param blockHeight - Block height to evaluate
+ */
+export function getVestedAmount(schedule: VestingSchedule, blockHeight: number): bigint {
+  assertValidSchedule(schedule);
+
+  const cliffBlock = schedule.startBlock + (schedule.cliffBlocks ?? 0);
+  if (blockHeight < cliffBlock) return 0n;
+
+  if (schedule.kind === 'linear') {
+    const total = schedule.totalAmount as bigint;
+    const duration = schedule.durationBlocks as number;
+    const elapsed = blockHeight - schedule.startBlock;
+    if (elapsed >= duration) return total;
+    return (total * BigInt(elapsed)) / BigInt(duration);
+  }
+
+  let vested = 0n;
+  for (const unlock of getVestingUnlocks(schedule)) {
+    if (unlock.block > blockHeight) break;
+    vested = unlock.cumulative;
+  }
+  return vested;
+}
+
+/**
+ * Gets the vesting state of a schedule at a block height
+ * @param schedule - Vesting schedule
+ * @param blockHeight - Block height to evaluate
+ * @param claimed - Raw amount already claimed
+ */
+export function getVestingStatus(
+  schedule: VestingSchedule,
+  blockHeight: number,
+  claimed: bigint = 0n
+): VestingStatus {
+  const total = getVestingTotal(schedule);
+  const vested = getVestedAmount(schedule, blockHeight);
+
+  if (claimed < 0n) {
+    throw new Error(`Invalid claimed amount: ${claimed}`);
+  }
+  if (claimed > vested) {
+    throw new Error(`Claimed amount ${claimed} exceeds vested amount ${vested}`);
+  }
+
+  const nextUnlock = getVestingUnlocks(schedule).find(unlock => unlock.block > blockHeight);
+  const endBlock = getVestingEndBlock(schedule);
+
+  return {
+    blockHeight,
+    total,
+    vested,
+    unvested: total - vested,
+    claimed,
+    claimable: vested - claimed,
+    percentVested: total === 0n ? 100 : Number((vested * 10000n) / total) / 100,
+    endBlock,
+    isFullyVested: vested === total,
+    nextUnlock,
+  };
+}
+
+/**
+ * Lists the discrete unlock points of a schedule. Linear schedules report
+ * the cliff (if any) and the end block.
+ * @param schedule - Vesting schedule
+ */
+export function getVestingUnlocks(schedule: VestingSchedule): VestingUnlock[] {
+  assertValidSchedule(schedule);
+
+  const cliffBlock = schedule.startBlock + (schedule.cliffBlocks ?? 0);
+
+  if (schedule.kind === 'cliff') {
+    const total = schedule.totalAmount as bigint;
+    return [{ block: cliffBlock, amount: total, cumulative: total }];
+  }
+
+  if (schedule.kind === 'linear') {
+    const endBlock = getVestingEndBlock(schedule);
+    const unlocks: VestingUnlock[] = [];
+    if (cliffBlock > schedule.startBlock && cliffBlock < endBlock) {
+      const atCliff = getVestedAmount(schedule, cliffBlock);
+      unlocks.push({ block: cliffBlock, amount: atCliff, cumulative: atCliff });
+    }
+    const total = schedule.totalAmount as bigint;
+    const before = unlocks.length > 0 ? unlocks[0].cumulative : 0n;
+    unlocks.push({ block: Math.max(endBlock, cliffBlock), amount: total - before, cumulative: total });
+    return unlocks;
+  }
+
+  // Stepwise: tranches released every period; those falling before the cliff
+  // are released together at the cliff
+  const amounts = getTrancheAmounts(schedule);
+  const period = schedule.periodBlocks as number;
+  const unlocks: VestingUnlock[] = [];
+  let cumulative = 0n;
+
+  amounts.forEach((amount, i) => {
+    const block = Math.max(schedule.startBlock + (i + 1) * period, cliffBlock);
+    cumulative += amount;
+
+    const last = unlocks[unlocks.length - 1];
+    if (last && last.block === block) {
+      last.amount += amount;
+      last.cumulative = cumulative;
+    } else {
+      unlocks.push({ block, amount, cumulative });
+    }
+  });
+
+  return unlocks;
+}
+
+/**
+ * Builds the unlock timeline with estimated dates, for display
+ * @param schedule - Vesting schedule
+ * @param currentBlock - Current block height
+ * @param options - Reference time for `currentBlock` and average block time in
+ *   seconds (default: BLOCK_TIME.TARGET)
+ */
+export function getVestingTimeline(
+  schedule: VestingSchedule,
+  currentBlock: number,
+  options: { now?: Date; blockTime?: number } = {}
+): VestingTimelineEntry[] {
+  const { now = new Date(), blockTime = BLOCK_TIME.TARGET } = options;
+
+  return getVestingUnlocks(schedule).map(unlock => {
+    const blocksUntil = Math.max(unlock.block - currentBlock, 0);
+    return {
+      ...unlock,
+      isUnlocked: unlock.block <= currentBlock,
+      blocksUntil,
+      estimatedDate: estimateBlockDate(unlock.block, currentBlock, now, blockTime),
+      timeUntil: blocksUntil > 0 ? formatBlockDuration(blocksUntil, blockTime) : 'unlocked',
+    };
+  });
+}
+
+/**
+ * Estimates the wall-clock time of a block height
+ * @param blockHeight - Target block height (may be in the past)
+ * @param currentBlock - Current block height
+ * @param now - Time of `currentBlock` (default: now)
+ * @param blockTime - Average block time in seconds (default: BLOCK_TIME.TARGET)
+ */
+export function estimateBlockDate(
+  blockHeight: number,
+  currentBlock: number,
+  now: Date = new Date(),
+  blockTime: number = BLOCK_TIME.TARGET
+): Date {
+  return new Date(now.getTime() + (blockHeight - currentBlock) * blockTime * 1000);
+}
+
+/**
+ * Gets the total raw amount of a schedule
+ * @param schedule - Vesting schedule
+ */
+export function getVestingTotal(schedule: VestingSchedule): bigint {
+  assertValidSchedule(schedule);
+  if (schedule.kind === 'stepwise' && schedule.tranches) {
+    return schedule.tranches.reduce((sum, amount) => sum + amount, 0n);
+  }
+  return schedule.totalAmount as bigint;
+}
+
+/**
+ * Gets the block at which a schedule is fully vested
+ * @param schedule - Vesting schedule
+ */
+export function getVestingEndBlock(schedule: VestingSchedule): number {
+  assertValidSchedule(schedule);
+
+  const cliffBlock = schedule.startBlock + (schedule.cliffBlocks ?? 0);
+  if (schedule.kind === 'cliff') return cliffBlock;
+  if (schedule.kind === 'linear') {
+    return Math.max(schedule.startBlock + (schedule.durationBlocks as number), cliffBlock);
+  }
+
+  const count = getTrancheAmounts(schedule).length;
+  return Math.max(schedule.startBlock + count * (schedule.periodBlocks as number), cliffBlock);
+}
+
+/**
+ * Gets the per-period amounts of a stepwise schedule. Equal tranches are
+ * used unless explicit ones are given; the remainder goes to the last one.
+ * @param schedule - Stepwise vesting schedule
+ */
+function getTrancheAmounts(schedule: VestingSchedule): bigint[] {
+  if (schedule.tranches) return [...schedule.tranches];
+
+  const total = schedule.totalAmount as bigint;
+  const count = (schedule.durationBlocks as number) / (schedule.periodBlocks as number);
+  const share = total / BigInt(count);
+  const amounts = new Array<bigint>(count).fill(share);
+  amounts[count - 1] += total - share * BigInt(count);
+  return amounts;
+}
+
+/**
+ * Throws if a schedule is missing required fields or has invalid values
+ * @param schedule - Vesting schedule
+ */
+function assertValidSchedule(schedule: VestingSchedule): void {
+  const { kind, totalAmount, startBlock, cliffBlocks = 0, durationBlocks, periodBlocks, tranches } = schedule;
+
+  const isBlockCount = (value: number | undefined, min: number) =>
+    value !== undefined && Number.isInteger(value) && value >= min;
+
+  if (!isBlockCount(startBlock, 0)) {
+    throw new Error(`Invalid vesting start block: ${startBlock}`);
+  }
+  if (!isBlockCount(cliffBlocks, 0)) {
+    throw new Error(`Invalid vesting cliff: ${cliffBlocks}`);
+  }
+
+  if (kind === 'stepwise' && tranches) {
+    if (!isBlockCount(periodBlocks, 1)) {
+      throw new Error(`Invalid vesting period: ${periodBlocks}`);
+    }
+    if (tranches.length === 0 || tranches.some(amount => amount < 0n)) {
+      throw new Error('Vesting tranches must be a non-empty list of non-negative amounts');
+    }
+    return;
+  }
+
+  if (totalAmount === undefined || totalAmount < 0n) {
+    throw new Error(`Invalid vesting amount: ${totalAmount}`);
+  }
+
+  switch (kind) {
+    case 'cliff':
+      return;
+    case 'linear':
+      if (!isBlockCount(durationBlocks, 1)) {
+        throw new Error(`Invalid vesting duration: ${durationBlocks}`);
+      }
+      return;
+    case 'stepwise':
+      if (!isBlockCount(durationBlocks, 1)) {
+        throw new Error(`Invalid vesting duration: ${durationBlocks}`);
+      }
+      if (!isBlockCount(periodBlocks, 1)) {
+        throw new Error(`Invalid vesting period: ${periodBlocks}`);
+      }
+      if ((durationBlocks as number) % (periodBlocks as number) !== 0) {
+        throw new Error(`Vesting duration ${durationBlocks} is not a multiple of the period ${periodBlocks}`);
+      }
+      return;
+    default:
+      throw new Error(`Unknown vesting kind: ${kind}`);
+  }
+}
@@ -7,6 +7,20 @@ import {
   isTestnetAddress,
   getNetworkFromAddress,
   addressesEqual,
+  parsePrincipal,
+  isValidPrincipal,
+  hash160,
+  publicKeyToAddress,
+  multisigToAddress,
+  hash160ToAddress,
+  stacksToBitcoinAddress,
+  bitcoinToStacksAddress,
+  convertAddressNetwork,
+  assertAddressNetwork,
+  AddressNetworkError,
+  diagnoseAddress,
+  validateAddressBatch,
+  validateAddressStream,
 } from '../src/address';
 
 describe('Address Utilities', () => {
@@ -94,5 +108,314 @@ describe('Address Utilities', () => {
       expect(addressesEqual('', 'SP123')).toBe(false);
     });
   });
-});
 
+  describe('parsePrincipal', () => {
+    it('should parse standard principals', () => {
+      const result = parsePrincipal('SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7');
+      expect(result.isValid).toBe(true);
+      if (!result.isValid) return;
+      expect(result.principal.kind).toBe('standard');
+      expect(result.principal.network).toBe('mainnet');
+      expect(result.principal.hash160).toBe('a46ff88886c2ef9762d970b4d2c63678835bd39d');
+    });
+
+    it('should parse contract principals', () => {
+      const result = parsePrincipal('ST000000000000000000002AMW42H.pox-4');
+      expect(result.isValid).toBe(true);
+      if (!result.isValid) return;
+      expect(result.principal.kind).toBe('contract');
+      if (result.principal.kind !== 'contract') return;
+      expect(result.principal.address).toBe('ST000000000000000000002AMW42H');
+      expect(result.principal.contractName).toBe('pox-4');
+      expect(result.principal.network).toBe('testnet');
+    });
+
+    it('should report checksum mismatches', () => {
+      const result = parsePrincipal('SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ8');
+      expect(result).toMatchObject({ isValid: false, error: 'invalid-checksum' });
+    });
+
+    it('should report unknown version bytes', () => {
+      const result = parsePrincipal('SA2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKMPVC4J3');
+      expect(result).toMatchObject({ isValid: false, error: 'unknown-version' });
+    });
+
+    it('should report invalid and overlong contract names', () => {
+      const address = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+      expect(parsePrincipal(`${address}.1token`)).toMatchObject({
+        isValid: false,
+        error: 'invalid-contract-name',
+      });
+      expect(parsePrincipal(`${address}.${'a'.repeat(129)}`)).toMatchObject({
+        isValid: false,
+        error: 'too-long',
+      });
+    });
+
+    it('should report malformed input', () => {
+      expect(parsePrincipal('')).toMatchObject({ isValid: false, error: 'invalid-input' });
+      expect(parsePrincipal('0x1234')).toMatchObject({ isValid: false, error: 'invalid-format' });
+      expect(parsePrincipal('SP123.a.b')).toMatchObject({ isValid: false, error: 'invalid-format' });
+    });
+
+    it('should expose a boolean helper', () => {
+      expect(isValidPrincipal('SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7.my-token')).toBe(true);
+      expect(isValidPrincipal('invalid')).toBe(false);
+    });
+  });
+
+  describe('key derivation', () => {
+    const G_COMPRESSED = '0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798';
+    const G_UNCOMPRESSED =
+      '0479be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798' +
+      '483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8';
+    const KEY_2 = '02c6047f9441ed7d6d3045406e95c07cd85c778e4b8cef3ca7abac09b95c709ee5';
+    const KEY_3 = '02f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f9';
+
+    it('should compute hash160', () => {
+      expect(hash160(G_COMPRESSED)).toBe('751e76e8199196d454941c45d1b3a323f1433bd6');
+      expect(hash160(G_UNCOMPRESSED)).toBe('91b24bf9f5288532960ac687abb035127b1d28a5');
+    });
+
+    it('should derive single-sig addresses from public keys', () => {
+      const mainnet = publicKeyToAddress(G_COMPRESSED);
+      const testnet = publicKeyToAddress(G_UNCOMPRESSED, 'testnet');
+      expect(mainnet.startsWith('SP')).toBe(true);
+      expect(parseStacksAddress(mainnet)?.hash160).toBe('751e76e8199196d454941c45d1b3a323f1433bd6');
+      expect(testnet.startsWith('ST')).toBe(true);
+      expect(parseStacksAddress(testnet)?.hash160).toBe('91b24bf9f5288532960ac687abb035127b1d28a5');
+    });
+
+    it('should reject malformed public keys', () => {
+      expect(() => publicKeyToAddress('05' + G_COMPRESSED.slice(2))).toThrow();
+      expect(() => publicKeyToAddress('02abcd')).toThrow();
+    });
+
+    it('should derive multi-sig addresses', () => {
+      const keys = [G_COMPRESSED, KEY_2, KEY_3];
+      const p2sh = multisigToAddress(keys, 2);
+      const p2wsh = multisigToAddress(keys, 2, 'p2wsh-p2sh');
+
+      expect(p2sh.startsWith('SM')).toBe(true);
+      expect(p2wsh.startsWith('SM')).toBe(true);
+      expect(p2sh).not.toBe(p2wsh);
+      expect(multisigToAddress(keys, 2, 'p2sh', 'testnet').startsWith('SN')).toBe(true);
+      expect(multisigToAddress(keys, 3)).not.toBe(p2sh);
+    });
+
+    it('should match known multi-sig address vectors', () => {
+      // hash160 of the 2-of-3 redeem script over [G, 2G, 3G], and of its P2WSH witness program
+      const keys = [G_COMPRESSED, KEY_2, KEY_3];
+      const p2sh = multisigToAddress(keys, 2);
+      const p2wsh = multisigToAddress(keys, 2, 'p2wsh-p2sh');
+
+      expect(p2sh).toBe('SMAZR1TMWWZBGQ8WQKG8F1QTVDSJ1V5RVGMRGMFW');
+      expect(parseStacksAddress(p2sh)?.hash160).toBe('15fc0754e73eb85d1cbce08786fadb7320ecb8dc');
+      expect(p2wsh).toBe('SM34NXXY925X5CNRW5QE49SFXHEH9THCRJEMW63VZ');
+      expect(parseStacksAddress(p2wsh)?.hash160).toBe('c95ef7c9117a56571c2ddc44e5fd8ba29d459893');
+      expect(multisigToAddress([KEY_3, KEY_2, G_COMPRESSED], 2)).not.toBe(p2sh);
+    });
+
+    it('should map non-sequential hash modes to the same address', () => {
+      const keys = [G_COMPRESSED, KEY_2, KEY_3];
+      expect(multisigToAddress(keys, 2, 'p2sh-non-sequential')).toBe(multisigToAddress(keys, 2, 'p2sh'));
+      expect(multisigToAddress(keys, 2, 'p2wsh-p2sh-non-sequential')).toBe(
+        multisigToAddress(keys, 2, 'p2wsh-p2sh')
+      );
+    });
+
+    it('should validate multi-sig configuration', () => {
+      expect(() => multisigToAddress([], 1)).toThrow();
+      expect(() => multisigToAddress([G_COMPRESSED], 2)).toThrow();
+      expect(() => multisigToAddress([G_UNCOMPRESSED, KEY_2], 1, 'p2wsh-p2sh')).toThrow();
+    });
+  });
+
+  describe('bitcoin address conversion', () => {
+    const HASH = 'a46ff88886c2ef9762d970b4d2c63678835bd39d';
+
+    it('should convert between mainnet P2PKH and single-sig addresses', () => {
+      expect(stacksToBitcoinAddress('SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7')).toBe(
+        '1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6d'
+      );
+      expect(bitcoinToStacksAddress('1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6d')).toBe(
+        'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7'
+      );
+    });
+
+    it('should map multi-sig and testnet versions', () => {
+      expect(stacksToBitcoinAddress(hash160ToAddress(HASH, 'mainnet', 'multi-sig'))).toMatch(/^3/);
+      expect(stacksToBitcoinAddress(hash160ToAddress(HASH, 'testnet', 'single-sig'))).toMatch(/^[mn]/);
+      expect(stacksToBitcoinAddress(hash160ToAddress(HASH, 'testnet', 'multi-sig'))).toMatch(/^2/);
+    });
+
+    it('should round-trip every address version', () => {
+      for (const network of ['mainnet', 'testnet'] as const) {
+        for (const type of ['single-sig', 'multi-sig'] as const) {
+          const address = hash160ToAddress(HASH, network, type);
+          expect(bitcoinToStacksAddress(stacksToBitcoinAddress(address))).toBe(address);
+        }
+      }
+    });
+
+    it('should reject unsupported addresses', () => {
+      expect(() => bitcoinToStacksAddress('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq')).toThrow();
+      expect(() => bitcoinToStacksAddress('1FzTxL9Mxnm2fdmnQEArfhzJHevwbvcH6e')).toThrow();
+      expect(() => stacksToBitcoinAddress('SA2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKMPVC4J3')).toThrow();
+    });
+  });
+
+  describe('network conversion', () => {
+    const MAINNET = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+    const TESTNET = 'ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQYAC0RQ';
+
+    it('should convert addresses between networks', () => {
+      expect(convertAddressNetwork(MAINNET, 'testnet')).toBe(TESTNET);
+      expect(convertAddressNetwork(TESTNET, 'mainnet')).toBe(MAINNET);
+      expect(convertAddressNetwork(MAINNET, 'mainnet')).toBe(MAINNET);
+    });
+
+    it('should preserve the address type', () => {
+      const multisig = hash160ToAddress('a46ff88886c2ef9762d970b4d2c63678835bd39d', 'mainnet', 'multi-sig');
+      const converted = convertAddressNetwork(multisig, 'testnet');
+      expect(parseStacksAddress(converted)?.type).toBe('multi-sig');
+      expect(converted.startsWith('SN')).toBe(true);
+    });
+
+    it('should throw on invalid addresses', () => {
+      expect(() => convertAddressNetwork('invalid', 'testnet')).toThrow();
+    });
+
+    it('should assert the expected network', () => {
+      expect(() => assertAddressNetwork(MAINNET, 'mainnet')).not.toThrow();
+      expect(() => assertAddressNetwork(`${TESTNET}.my-contract`, 'testnet')).not.toThrow();
+      expect(() => assertAddressNetwork(TESTNET, 'mainnet')).toThrow(AddressNetworkError);
+    });
+
+    it('should expose mismatch details on the error', () => {
+      try {
+        assertAddressNetwork(TESTNET, 'mainnet');
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(AddressNetworkError);
+        expect((error as AddressNetworkError).expected).toBe('mainnet');
+        expect((error as AddressNetworkError).actual).toBe('testnet');
+      }
+    });
+  });
+
+  describe('diagnoseAddress', () => {
+    const VALID = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+
+    it('should accept valid addresses', () => {
+      const result = diagnoseAddress(VALID);
+      expect(result.isValid).toBe(true);
+      expect(result.issue).toBeNull();
+      expect(result.network).toBe('mainnet');
+    });
+
+    it('should report c32 normalisations without rejecting', () => {
+      const result = diagnoseAddress(VALID.replace('GV1', 'GVI').toLowerCase());
+      expect(result.isValid).toBe(true);
+      expect(result.normalized).toBe(VALID);
+      expect(result.normalizations).toEqual([{ position: 11, from: 'i', to: '1' }]);
+    });
+
+    it('should detect wrong prefixes', () => {
+      expect(diagnoseAddress('').issue).toBe('empty');
+      expect(diagnoseAddress('SX2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7').issue).toBe('wrong-prefix');
+      expect(diagnoseAddress('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq').issue).toBe('wrong-prefix');
+    });
+
+    it('should detect invalid characters', () => {
+      const result = diagnoseAddress('SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJU');
+      expect(result.issue).toBe('invalid-characters');
+      expect(result.invalidCharacters).toEqual([{ position: 40, character: 'U' }]);
+    });
+
+    it('should detect wrong lengths', () => {
+      expect(diagnoseAddress(`${VALID}7`).issue).toBe('wrong-length');
+      expect(diagnoseAddress('SP2J6ZY48').issue).toBe('wrong-length');
+    });
+
+    it('should suggest corrections for single-character typos', () => {
+      const typo = VALID.slice(0, 20) + 'X' + VALID.slice(21);
+      const result = diagnoseAddress(typo);
+      expect(result.issue).toBe('checksum-mismatch');
+      expect(result.suggestions).toContain(VALID);
+    });
+  });
+
+  describe('batch validation', () => {
+    const MAINNET = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+    const TESTNET = 'ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQYAC0RQ';
+    const CONTRACT = 'SP000000000000000000002Q6VF78.pox-4';
+
+    it('should report per-row results and a summary', () => {
+      const result = validateAddressBatch([MAINNET, 'invalid', ` ${CONTRACT} `], { network: 'mainnet' });
+
+      expect(result.rows.map(row => row.isValid)).toEqual([true, false, true]);
+      expect(result.rows[1].error).toBe('invalid-format');
+      expect(result.rows[2].principal?.kind).toBe('contract');
+      expect(result.summary).toEqual({
+        total: 3,
+        valid: 2,
+        invalid: 1,
+        duplicates: 0,
+        networkMismatches: 0,
+      });
+    });
+
+    it('should detect duplicates', () => {
+      const result = validateAddressBatch([MAINNET, ` ${MAINNET}`, MAINNET]);
+
+      expect(result.rows[1]).toMatchObject({ isValid: false, error: 'duplicate', duplicateOf: 0 });
+      expect(result.duplicates).toHaveLength(1);
+      expect(result.duplicates[0].indices).toEqual([0, 1, 2]);
+      expect(result.summary.duplicates).toBe(2);
+    });
+
+    it('should treat contract names as case-sensitive when detecting duplicates', () => {
+      const result = validateAddressBatch([`${MAINNET}.Token`, `${MAINNET}.token`, `${MAINNET}.token`]);
+
+      expect(result.rows.map(row => row.duplicateOf)).toEqual([undefined, undefined, 1]);
+      expect(result.summary.duplicates).toBe(1);
+    });
+
+    it('should keep duplicates valid when dedupe is disabled', () => {
+      const result = validateAddressBatch([MAINNET, MAINNET], { dedupe: false });
+      expect(result.rows[1]).toMatchObject({ isValid: true, duplicateOf: 0 });
+      expect(result.duplicates).toHaveLength(1);
+    });
+
+    it('should flag network mismatches and contracts', () => {
+      const result = validateAddressBatch([TESTNET, CONTRACT], {
+        network: 'mainnet',
+        allowContracts: false,
+      });
+
+      expect(result.rows[0].error).toBe('network-mismatch');
+      expect(result.rows[1].error).toBe('contract-not-allowed');
+      expect(result.networkMismatches).toEqual([result.rows[0]]);
+    });
+
+    it('should validate async iterables row by row', async () => {
+      async function* source() {
+        yield MAINNET;
+        yield TESTNET;
+        yield MAINNET;
+      }
+
+      const stream = validateAddressStream(source(), { network: 'mainnet' });
+      const rows = [];
+      let next = await stream.next();
+      while (!next.done) {
+        rows.push(next.value);
+        next = await stream.next();
+      }
+
+      expect(rows.map(row => row.error)).toEqual([undefined, 'network-mismatch', 'duplicate']);
+      expect(next.value).toMatchObject({ total: 3, valid: 1, networkMismatches: 1, duplicates: 1 });
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AddressBook,
+  KNOWN_ADDRESSES,
+  formatAddressForDisplay,
+} from '../src/addressbook';
+import { isValidPrincipal } from '../src/address';
+
+describe('Address Book', () => {
+  const ADDRESS = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+
+  describe('KNOWN_ADDRESSES', () => {
+    it('should only contain valid principals', () => {
+      KNOWN_ADDRESSES.forEach(entry => {
+        expect(isValidPrincipal(entry.principal)).toBe(true);
+      });
+    });
+  });
+
+  describe('AddressBook', () => {
+    it('should seed well-known contracts', () => {
+      const book = AddressBook.withDefaults();
+      expect(book.getLabel('SP000000000000000000002Q6VF78.pox-4')).toBe('PoX-4');
+      expect(book.getLabel('SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4.sbtc-token')).toBe('sBTC Token');
+      expect(book.findByProtocol('ARKADIKO').length).toBeGreaterThan(0);
+    });
+
+    it('should register and look up principals case-insensitively', () => {
+      const book = new AddressBook();
+      book.register({ principal: ADDRESS, label: 'Treasury', tags: ['team', 'team'] });
+
+      expect(book.has(ADDRESS.toLowerCase())).toBe(true);
+      expect(book.get(ADDRESS)?.tags).toEqual(['team']);
+      expect(book.findByTag('team')).toHaveLength(1);
+      expect(book.findByNetwork('testnet')).toHaveLength(0);
+      expect(book.remove(ADDRESS)).toBe(true);
+      expect(book.size).toBe(0);
+    });
+
+    it('should reject invalid entries', () => {
+      const book = new AddressBook();
+      expect(() => book.register({ principal: 'invalid', label: 'Nope' })).toThrow();
+      expect(() => book.register({ principal: ADDRESS, label: '' })).toThrow();
+    });
+
+    it('should round-trip through JSON', () => {
+      const book = AddressBook.withDefaults();
+      book.register({ principal: `${ADDRESS}.my-vault`, label: 'Vault', protocol: 'ZEST' });
+
+      const restored = AddressBook.fromJSON(JSON.stringify(book));
+      expect(restored.size).toBe(book.size);
+      expect(restored.get(`${ADDRESS}.my-vault`)).toEqual(book.get(`${ADDRESS}.my-vault`));
+    });
+
+    it('should reject malformed JSON', () => {
+      expect(() => AddressBook.fromJSON('{"entries": []}')).toThrow();
+    });
+  });
+
+  describe('formatAddressForDisplay', () => {
+    it('should prefer labels, then BNS names', () => {
+      const book = new AddressBook([{ principal: ADDRESS, label: 'Treasury' }]);
+      expect(formatAddressForDisplay(ADDRESS, { book, bnsName: 'satoshi.btc' })).toBe('Treasury');
+      expect(formatAddressForDisplay(ADDRESS, { bnsName: 'satoshi.btc' })).toBe('satoshi.btc');
+    });
+
+    it('should fall back to the shortened address', () => {
+      expect(formatAddressForDisplay(ADDRESS)).toBe('SP2J6...9EJ7');
+      expect(formatAddressForDisplay(`${ADDRESS}.my-token`)).toBe('SP2J6...9EJ7.my-token');
+    });
+  });
+});
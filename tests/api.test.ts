@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getAccountInfoUrl,
+  getContractInfoUrl,
+  getNftsUrl,
+  getExplorerAddressUrl,
+} from '../src/api';
+import { AddressNetworkError } from '../src/address';
+
+describe('API Helpers', () => {
+  const MAINNET = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+  const TESTNET = 'ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQYAC0RQ';
+
+  describe('network guard', () => {
+    it('should build URLs for matching networks', () => {
+      expect(getAccountInfoUrl(MAINNET)).toBe(
+        `https://api.hiro.so/extended/v1/address/${MAINNET}/balances`
+      );
+      expect(getAccountInfoUrl(TESTNET, 'testnet')).toBe(
+        `https://api.testnet.hiro.so/extended/v1/address/${TESTNET}/balances`
+      );
+    });
+
+    it('should reject addresses from the other network', () => {
+      expect(() => getAccountInfoUrl(TESTNET, 'mainnet')).toThrow(AddressNetworkError);
+      expect(() => getNftsUrl(MAINNET, 'testnet')).toThrow(AddressNetworkError);
+      expect(() => getExplorerAddressUrl(TESTNET)).toThrow(AddressNetworkError);
+    });
+
+    it('should leave addresses it cannot parse to the API', () => {
+      expect(getAccountInfoUrl('SP123')).toBe('https://api.hiro.so/extended/v1/address/SP123/balances');
+      expect(getExplorerAddressUrl('invalid', 'testnet')).toBe(
+        'https://explorer.hiro.so/address/invalid?chain=testnet'
+      );
+    });
+
+    it('should check the deployer of contract identifiers', () => {
+      expect(getContractInfoUrl(`${MAINNET}.my-contract`)).toContain(`${MAINNET}.my-contract`);
+      expect(() => getContractInfoUrl(`${MAINNET}.my-contract`, 'testnet')).toThrow(AddressNetworkError);
+    });
+  });
+});
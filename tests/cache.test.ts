@@ -0,0 +1,310 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  CachePolicy,
+  DEFAULT_CACHE_POLICIES,
+  FileSystemCacheStore,
+  MemoryCacheStore,
+  ResponseCache,
+} from '../src/cache';
+import { StacksApiClient } from '../src/client';
+import { createApiConfig } from '../src/api';
+import { MockApi, startMockApi } from './fixtures/mock-api';
+
+describe('Response Cache', () => {
+  const BASE = 'https://api.hiro.so';
+
+  describe('MemoryCacheStore', () => {
+    it('should evict the least recently used entry', async () => {
+      const store = new MemoryCacheStore(2);
+      await store.set('a', { value: 1 });
+      await store.set('b', { value: 2 });
+      await store.get('a');
+      await store.set('c', { value: 3 });
+
+      expect(await store.keys()).toEqual(['a', 'c']);
+      expect(await store.get('b')).toBeUndefined();
+      expect(store.size).toBe(2);
+    });
+
+    it('should reject invalid sizes', () => {
+      expect(() => new MemoryCacheStore(0)).toThrow('Invalid cache size');
+    });
+
+    it('should not share cached values with callers', async () => {
+      const store = new MemoryCacheStore();
+      const value = { balance: '1' };
+      await store.set('a', { value });
+      value.balance = '2';
+      const entry = await store.get('a');
+      (entry?.value as { balance: string }).balance = '3';
+
+      expect(await store.get('a')).toEqual({ value: { balance: '1' } });
+    });
+  });
+
+  describe('FileSystemCacheStore', () => {
+    let directory: string;
+
+    afterEach(async () => {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it('should persist entries across instances', async () => {
+      directory = await mkdtemp(join(tmpdir(), 'stacks-cache-'));
+      const key = `${BASE}/v2/contracts/source/SP000.contract/name?proof=0`;
+
+      await new FileSystemCacheStore(join(directory, 'nested')).set(key, { value: { source: '(ok)' } });
+      const store = new FileSystemCacheStore(join(directory, 'nested'));
+
+      expect(await store.get(key)).toEqual({ value: { source: '(ok)' } });
+      expect(await store.keys()).toEqual([key]);
+      await store.delete(key);
+      expect(await store.get(key)).toBeUndefined();
+    });
+
+    it('should treat corrupt files as misses and clear the directory', async () => {
+      directory = await mkdtemp(join(tmpdir(), 'stacks-cache-'));
+      const store = new FileSystemCacheStore(directory);
+      await store.set('a', { value: 1 });
+      await writeFile(join(directory, 'broken.json'), '{', 'utf8');
+
+      expect(await store.keys()).toEqual(['a']);
+      await store.clear();
+      expect(await readdir(directory)).toEqual([]);
+      expect(await new FileSystemCacheStore(join(directory, 'missing')).keys()).toEqual([]);
+    });
+
+    it('should delete the oldest entries beyond maxEntries', async () => {
+      directory = await mkdtemp(join(tmpdir(), 'stacks-cache-'));
+      const store = new FileSystemCacheStore(directory, 2);
+      for (const key of ['a', 'b', 'c']) {
+        await store.set(key, { value: key });
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      expect((await store.keys()).sort()).toEqual(['b', 'c']);
+      expect(() => new FileSystemCacheStore(directory, 0)).toThrow('Invalid cache size');
+    });
+  });
+
+  describe('ResponseCache', () => {
+    const counter = <T>(value: T) => {
+      let calls = 0;
+      const load = async () => {
+        calls++;
+        return value;
+      };
+      return { load, calls: () => calls };
+    };
+
+    it('should match the default policies', () => {
+      const cache = new ResponseCache();
+      const ttl = (path: string, value?: unknown) => {
+        const policy = cache.getPolicy(path);
+        return typeof policy?.ttl === 'function' ? policy.ttl(value) : policy?.ttl;
+      };
+
+      const txPath = `/extended/v1/tx/0x${'ab'.repeat(32)}`;
+      expect(ttl(txPath, { tx_status: 'success', block_height: 10 })).toBe(Infinity);
+      expect(ttl(txPath, { tx_status: 'abort_by_post_condition', block_height: 10 })).toBe(Infinity);
+      expect(ttl(txPath, { tx_status: 'success', block_height: 10, is_unanchored: true })).toBe(0);
+      expect(ttl(txPath, { tx_status: 'success', block_height: 10, canonical: false })).toBe(0);
+      expect(ttl(txPath, { tx_status: 'success' })).toBe(0);
+      expect(ttl(txPath, { tx_status: 'pending' })).toBe(0);
+      expect(ttl(txPath, { tx_status: 'dropped_stale_garbage_collect' })).toBe(0);
+      expect(ttl('/v2/contracts/interface/SP000/contract')).toBe(Infinity);
+      expect(cache.getPolicy('/extended/v1/address/SP000/balances')?.invalidateOnBlock).toBe(true);
+      expect(cache.getPolicy('/extended/v1/address/SP000/transactions')).toBeUndefined();
+      expect(DEFAULT_CACHE_POLICIES.length).toBeGreaterThan(0);
+    });
+
+    it('should expire entries after their TTL', async () => {
+      let now = 0;
+      const policies: CachePolicy[] = [{ match: '/short', ttl: 1000 }];
+      const cache = new ResponseCache({ policies, now: () => now });
+      const { load, calls } = counter('value');
+
+      await cache.fetch(`${BASE}/short`, load);
+      now = 999;
+      await cache.fetch(`${BASE}/short`, load);
+      expect(calls()).toBe(1);
+
+      now = 1000;
+      await cache.fetch(`${BASE}/short`, load);
+      expect(calls()).toBe(2);
+    });
+
+    it('should delete stale entries when they are read', async () => {
+      let now = 0;
+      let ttl = 1000;
+      const cache = new ResponseCache({ policies: [{ match: '/', ttl: () => ttl }], now: () => now });
+
+      await cache.fetch(`${BASE}/x`, async () => 'value');
+      expect(await cache.store.keys()).toEqual([`${BASE}/x`]);
+
+      now = 1000;
+      ttl = 0;
+      await cache.fetch(`${BASE}/x`, async () => 'value');
+      expect(await cache.store.keys()).toEqual([]);
+    });
+
+    it('should not cache paths without a policy or with a zero TTL', async () => {
+      const cache = new ResponseCache({ policies: [{ match: /^\/never$/, ttl: () => 0 }] });
+      const { load, calls } = counter('value');
+
+      await cache.fetch(`${BASE}/never`, load);
+      await cache.fetch(`${BASE}/never`, load);
+      await cache.fetch(`${BASE}/other`, load);
+      expect(calls()).toBe(3);
+      expect(await cache.store.keys()).toEqual([]);
+    });
+
+    it('should coalesce concurrent loads of the same URL', async () => {
+      const cache = new ResponseCache({ policies: [] });
+      let calls = 0;
+      const load = () => {
+        calls++;
+        return new Promise(resolve => setTimeout(() => resolve(calls), 10));
+      };
+
+      const results = await Promise.all([1, 2, 3].map(() => cache.fetch(`${BASE}/x`, load)));
+      expect(results).toEqual([1, 1, 1]);
+      expect(calls).toBe(1);
+
+      await cache.fetch(`${BASE}/x`, load);
+      expect(calls).toBe(2);
+    });
+
+    it('should drop block-bound entries when the tip advances', async () => {
+      const heights: [number, number | undefined][] = [];
+      const cache = new ResponseCache({
+        policies: [
+          { match: '/balance', ttl: Infinity, invalidateOnBlock: true },
+          { match: '/source', ttl: Infinity },
+        ],
+        onBlock: (height, previous) => {
+          heights.push([height, previous]);
+        },
+      });
+      const balance = counter(1);
+      const source = counter('(ok)');
+
+      await cache.notifyBlock(100);
+      await cache.fetch(`${BASE}/balance`, balance.load);
+      await cache.fetch(`${BASE}/source`, source.load);
+      expect(await cache.notifyBlock(100)).toBe(false);
+      await cache.fetch(`${BASE}/balance`, balance.load);
+      expect(balance.calls()).toBe(1);
+
+      expect(await cache.notifyBlock(101)).toBe(true);
+      await cache.fetch(`${BASE}/balance`, balance.load);
+      await cache.fetch(`${BASE}/source`, source.load);
+
+      expect(balance.calls()).toBe(2);
+      expect(source.calls()).toBe(1);
+      expect(heights).toEqual([
+        [100, undefined],
+        [101, 100],
+      ]);
+    });
+
+    it('should invalidate entries by prefix or predicate', async () => {
+      const cache = new ResponseCache({ policies: [{ match: '/', ttl: Infinity }] });
+      await cache.fetch(`${BASE}/v1/names/a.btc`, async () => 1);
+      await cache.fetch(`${BASE}/v1/names/b.btc`, async () => 2);
+      await cache.fetch(`${BASE}/v2/info`, async () => 3);
+
+      expect(await cache.invalidate(`${BASE}/v1/names/`)).toBe(2);
+      expect(await cache.invalidate(url => url.endsWith('/info'))).toBe(1);
+      expect(await cache.store.keys()).toEqual([]);
+    });
+
+    it('should fall back to loading when the store fails', async () => {
+      const store = new MemoryCacheStore();
+      store.get = async () => {
+        throw new Error('disk error');
+      };
+      const cache = new ResponseCache({ store, policies: [{ match: '/', ttl: Infinity }] });
+
+      expect(await cache.fetch(`${BASE}/x`, async () => 'loaded')).toBe('loaded');
+    });
+  });
+
+  describe('StacksApiClient with cache', () => {
+    const TX_ID = `0x${'ab'.repeat(32)}`;
+    let api: MockApi;
+
+    afterEach(async () => {
+      await api.close();
+    });
+
+    const tx = (status: string, blockHeight?: number) => ({
+      body: { tx_id: TX_ID, tx_status: status, tx_type: 'token_transfer', block_height: blockHeight },
+    });
+
+    it('should cache confirmed transactions but not pending ones', async () => {
+      api = await startMockApi({ [`/extended/v1/tx/${TX_ID}`]: tx('pending') });
+      const client = new StacksApiClient(createApiConfig('mainnet', api.url), { cache: new ResponseCache() });
+
+      expect((await client.getTransaction(TX_ID)).tx_status).toBe('pending');
+      api.setRoute(`/extended/v1/tx/${TX_ID}`, tx('success', 100));
+      expect((await client.getTransaction(TX_ID)).tx_status).toBe('success');
+      expect((await client.getTransaction(TX_ID)).tx_status).toBe('success');
+      expect(api.requests).toHaveLength(2);
+    });
+
+    it('should not cache dropped transactions, which may still confirm', async () => {
+      api = await startMockApi({ [`/extended/v1/tx/${TX_ID}`]: tx('dropped_stale_garbage_collect') });
+      const client = new StacksApiClient(createApiConfig('mainnet', api.url), { cache: new ResponseCache() });
+
+      expect((await client.getTransaction(TX_ID)).tx_status).toBe('dropped');
+      api.setRoute(`/extended/v1/tx/${TX_ID}`, tx('success', 100));
+      expect((await client.getTransaction(TX_ID)).tx_status).toBe('success');
+      expect(api.requests).toHaveLength(2);
+    });
+
+    it('should coalesce identical requests and let callers abort independently', async () => {
+      api = await startMockApi({ '/v2/contracts/source/SP000/c': { body: { source: '(ok)' }, delay: 30 } });
+      const client = new StacksApiClient(createApiConfig('mainnet', api.url), { cache: new ResponseCache() });
+      const controller = new AbortController();
+
+      const aborted = client.request('/v2/contracts/source/SP000/c', { signal: controller.signal });
+      const kept = client.request('/v2/contracts/source/SP000/c');
+      controller.abort();
+
+      await expect(aborted).rejects.toMatchObject({ code: 'aborted' });
+      expect(await kept).toEqual({ source: '(ok)' });
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('should not start a load for an already aborted request', async () => {
+      api = await startMockApi({ '/v2/info': { status: 500 } });
+      const client = new StacksApiClient(createApiConfig('mainnet', api.url), { cache: new ResponseCache() });
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.request('/v2/info', { signal: controller.signal })).rejects.toMatchObject({
+        code: 'aborted',
+      });
+      expect(api.requests).toHaveLength(0);
+    });
+
+    it('should advance the cache tip from getInfo', async () => {
+      api = await startMockApi({
+        '/v2/info': {
+          body: { network_id: 1, burn_block_height: 1, stacks_tip_height: 500, stacks_tip: '0x' },
+        },
+      });
+      const cache = new ResponseCache();
+      const client = new StacksApiClient(createApiConfig('mainnet', api.url), { cache });
+      await client.getInfo();
+      await client.getInfo();
+
+      expect(cache.blockHeight).toBe(500);
+      expect(api.requests).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { StacksApiClient, StacksApiError } from '../src/client';
+import { createApiConfig } from '../src/api';
+import { MockApi, startMockApi } from './fixtures/mock-api';
+
+describe('StacksApiClient', () => {
+  const ADDRESS = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+  const TOKEN = 'SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR.token::token';
+  const NFT = 'SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR.nft::item';
+  const BALANCE_PATH = `/extended/v1/address/${ADDRESS}/balances`;
+
+  let api: MockApi;
+  let client: StacksApiClient;
+
+  beforeEach(async () => {
+    api = await startMockApi();
+    client = new StacksApiClient(createApiConfig('mainnet', api.url));
+  });
+
+  afterEach(async () => {
+    await api.close();
+  });
+
+  const catchError = async (promise: Promise<unknown>): Promise<StacksApiError> => {
+    const error = await promise.catch(e => e);
+    expect(error).toBeInstanceOf(StacksApiError);
+    return error as StacksApiError;
+  };
+
+  describe('getAccountBalance', () => {
+    it('should parse numeric strings to bigint', async () => {
+      api.setRoute(BALANCE_PATH, {
+        body: {
+          stx: {
+            balance: '123456789012345678901',
+            total_sent: '0',
+            total_received: '123456789012345678901',
+            locked: '1000000',
+          },
+          fungible_tokens: { [TOKEN]: { balance: '500', total_sent: '1', total_received: '501' } },
+          non_fungible_tokens: { [NFT]: { count: '3', total_sent: '0', total_received: '3' } },
+        },
+      });
+
+      const balance = await client.getAccountBalance(ADDRESS);
+      expect(balance.stx.balance).toBe(123456789012345678901n);
+      expect(balance.stx.locked).toBe(1000000n);
+      expect(balance.fungible_tokens[TOKEN]).toEqual({ balance: 500n, total_sent: 1n, total_received: 501n });
+      expect(balance.non_fungible_tokens[NFT].count).toBe(3n);
+    });
+
+    it('should throw a parse error for non-numeric amounts', async () => {
+      api.setRoute(BALANCE_PATH, {
+        body: {
+          stx: { balance: '1.5', total_sent: '0', total_received: '0', locked: '0' },
+          fungible_tokens: {},
+          non_fungible_tokens: {},
+        },
+      });
+
+      const error = await catchError(client.getAccountBalance(ADDRESS));
+      expect(error.code).toBe('parse');
+      expect(error.message).toContain('stx.balance');
+    });
+  });
+
+  describe('getTransaction', () => {
+    it('should add the 0x prefix and normalize the status', async () => {
+      const txId = 'ab'.repeat(32);
+      api.setRoute(`/extended/v1/tx/0x${txId}`, {
+        body: {
+          tx_id: `0x${txId}`,
+          tx_status: 'abort_by_post_condition',
+          tx_type: 'token_transfer',
+          block_height: 150000,
+          sender_address: ADDRESS,
+          nonce: 7,
+          fee_rate: '3000',
+        },
+      });
+
+      const tx = await client.getTransaction(txId);
+      expect(tx).toEqual({
+        tx_id: `0x${txId}`,
+        tx_status: 'failed',
+        tx_type: 'token_transfer',
+        block_height: 150000,
+        sender_address: ADDRESS,
+        nonce: 7,
+        fee_rate: 3000n,
+      });
+    });
+  });
+
+  describe('getInfo', () => {
+    it('should return chain tips', async () => {
+      api.setRoute('/v2/info', {
+        body: {
+          network_id: 1,
+          server_version: 'stacks-node 3.0',
+          burn_block_height: 870000,
+          stacks_tip_height: 180000,
+          stacks_tip: '0xabc',
+        },
+      });
+
+      const info = await client.getInfo();
+      expect(info.burn_block_height).toBe(870000);
+      expect(info.stacks_tip_height).toBe(180000);
+    });
+  });
+
+  describe('request', () => {
+    it('should send config headers and a bigint-safe JSON body', async () => {
+      const config = createApiConfig('mainnet', api.url);
+      config.headers = { ...config.headers, 'x-api-key': 'secret' };
+      api.setRoute('/v2/fees/transaction', { body: [] });
+
+      await new StacksApiClient(config).request('/v2/fees/transaction', {
+        method: 'POST',
+        body: { amount: 10n },
+      });
+
+      const [request] = api.requests;
+      expect(request.method).toBe('POST');
+      expect(request.headers['x-api-key']).toBe('secret');
+      expect(request.headers['content-type']).toBe('application/json');
+      expect(JSON.parse(request.body)).toEqual({ amount: '10' });
+    });
+
+    it('should send JSON bodies as application/json unless the caller sets a content type', async () => {
+      api.setRoute('/v2/transactions', { body: '"0xabc"' });
+      const client = new StacksApiClient({ baseUrl: api.url });
+
+      await client.request('/v2/transactions', { method: 'POST', body: { tx: '0xabc' } });
+      await new StacksApiClient(createApiConfig('mainnet', api.url)).request('/v2/transactions', {
+        method: 'POST',
+        body: '0xabc',
+        headers: { 'content-type': 'text/plain' },
+      });
+
+      expect(api.requests[0].headers['content-type']).toBe('application/json');
+      expect(api.requests[1].headers['content-type']).toBe('text/plain');
+    });
+
+    it('should throw http errors with status, body and headers', async () => {
+      api.setRoute('/v2/info', {
+        status: 404,
+        body: { error: 'missing' },
+        headers: { 'x-request-id': 'abc' },
+      });
+
+      const error = await catchError(client.getInfo());
+      expect(error.code).toBe('http');
+      expect(error.status).toBe(404);
+      expect(error.body).toEqual({ error: 'missing' });
+      expect(error.headers.get('x-request-id')).toBe('abc');
+      expect(error.url).toBe(`${api.url}/v2/info`);
+    });
+
+    it('should keep non-JSON error bodies as text', async () => {
+      api.setRoute('/v2/info', { status: 502, body: 'Bad Gateway' });
+
+      const error = await catchError(client.getInfo());
+      expect(error.status).toBe(502);
+      expect(error.body).toBe('Bad Gateway');
+    });
+
+    it('should throw a parse error for invalid JSON', async () => {
+      api.setRoute('/v2/info', { body: '<html>' });
+
+      const error = await catchError(client.getInfo());
+      expect(error.code).toBe('parse');
+      expect(error.status).toBe(200);
+    });
+
+    it('should time out using the configured timeout', async () => {
+      const config = { ...createApiConfig('mainnet', api.url), timeout: 50 };
+      api.setRoute('/v2/info', { body: {}, delay: 1000 });
+
+      const error = await catchError(new StacksApiClient(config).getInfo());
+      expect(error.code).toBe('timeout');
+      expect(error.status).toBe(0);
+    });
+
+    it('should abort when the caller signal fires', async () => {
+      api.setRoute('/v2/info', { body: {}, delay: 1000 });
+      const controller = new AbortController();
+
+      const pending = client.request('/v2/info', { signal: controller.signal });
+      setTimeout(() => controller.abort(), 20);
+
+      const error = await catchError(pending);
+      expect(error.code).toBe('aborted');
+    });
+
+    it('should report network errors', async () => {
+      const { url } = api;
+      await api.close();
+      api = await startMockApi();
+
+      const error = await catchError(new StacksApiClient(createApiConfig('mainnet', url)).getInfo());
+      expect(error.code).toBe('network');
+    });
+
+    it('should use an injected fetch', async () => {
+      const calls: string[] = [];
+      const fetchFn: typeof fetch = async input => {
+        calls.push(String(input));
+        return new Response(JSON.stringify({ ok: true }), { status: 200 });
+      };
+
+      const result = await new StacksApiClient(createApiConfig(), { fetch: fetchFn }).request('/v2/info', {
+        params: { proof: 0 },
+      });
+
+      expect(result).toEqual({ ok: true });
+      expect(calls).toEqual(['https://api.hiro.so/v2/info?proof=0']);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Local HTTP server standing in for the Stacks API in tests
+ */
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  /** Serialized as JSON unless it is already a string */
+  body?: unknown;
+  /** Milliseconds to wait before responding */
+  delay?: number;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: string;
+}
+
+export type MockRoute = MockResponse | ((request: RecordedRequest) => MockResponse);
+
+export interface MockApi {
+  url: string;
+  requests: RecordedRequest[];
+  /** Sets the response for a path (without query string) */
+  setRoute(path: string, route: MockRoute): void;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts a mock API on a random local port. Unknown paths return 404.
+ * @param routes - Responses keyed by path
+ */
+export async function startMockApi(routes: Record<string, MockRoute> = {}): Promise<MockApi> {
+  const table = new Map(Object.entries(routes));
+  const requests: RecordedRequest[] = [];
+  const pending = new Set<NodeJS.Timeout>();
+
+  const server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      const path = (req.url ?? '/').split('?')[0];
+      const recorded: RecordedRequest = {
+        method: req.method ?? 'GET',
+        path: req.url ?? '/',
+        headers: req.headers,
+        body,
+      };
+      requests.push(recorded);
+
+      const route = table.get(path) ?? { status: 404, body: { error: 'not found' } };
+      const response = typeof route === 'function' ? route(recorded) : route;
+      const send = () => {
+        const { body: data = null } = response;
+        const payload = typeof data === 'string' ? data : JSON.stringify(data);
+        res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', ...response.headers });
+        res.end(payload);
+      };
+
+      if (response.delay) {
+        const timer = setTimeout(() => {
+          pending.delete(timer);
+          send();
+        }, response.delay);
+        pending.add(timer);
+        res.on('close', () => clearTimeout(timer));
+      } else {
+        send();
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    setRoute: (path, route) => table.set(path, route),
+    close: () => {
+      pending.forEach(timer => clearTimeout(timer));
+      server.closeAllConnections();
+      return new Promise<void>(resolve => server.close(() => resolve()));
+    },
+  };
+}
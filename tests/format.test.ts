@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatRelativeTime,
+  formatDuration,
+  formatBlockDuration,
+  estimateBlockDurations,
+  formatLargeNumber,
+  formatClarityValue,
+  printClarityValue,
+  formatHash,
+  formatByteSize,
+  formatExecutionCost,
+  formatFeeRate,
+  formatFee,
+  BLOCK_EXECUTION_LIMITS,
+} from '../src/format';
+import { estimateFee } from '../src/transaction';
+import { BlockClock } from '../src/stacking';
+import {
+  cvTuple,
+  cvList,
+  cvSome,
+  cvNone,
+  cvOk,
+  cvErr,
+  cvUint,
+  cvInt,
+  cvBool,
+  cvPrincipal,
+  cvBuff,
+  cvStringAscii,
+  cvStringUtf8,
+} from '../src/transaction';
+
+describe('Format Utilities', () => {
+  const NOW = Date.UTC(2025, 0, 1);
+
+  describe('formatRelativeTime', () => {
+    it('should format past and future times', () => {
+      expect(formatRelativeTime(NOW / 1000 - 300, { now: NOW })).toBe('5 minutes ago');
+      expect(formatRelativeTime(NOW + 3 * 3600_000, { now: NOW })).toBe('in 3 hours');
+      expect(formatRelativeTime(NOW - 36 * 3600_000, { now: NOW })).toBe('1 day ago');
+      expect(formatRelativeTime(NOW - 20_000, { now: NOW })).toBe('now');
+    });
+
+    it('should support other locales and units', () => {
+      expect(formatRelativeTime(NOW + 3 * 3600_000, { now: NOW, locale: 'de-DE' })).toBe('in 3 Stunden');
+      expect(formatRelativeTime(NOW - 14 * 86400_000, { now: NOW, largestUnit: 'week' })).toBe('2 weeks ago');
+      expect(formatRelativeTime(NOW + 5_000, { now: NOW, smallestUnit: 'second' })).toBe('in 5 seconds');
+      expect(() => formatRelativeTime(NOW, { smallestUnit: 'day', largestUnit: 'hour' })).toThrow(
+        'Invalid unit range'
+      );
+    });
+  });
+
+  describe('formatDuration', () => {
+    it('should format multiple units', () => {
+      expect(formatDuration(36 * 3600)).toBe('1 day 12 hours');
+      expect(formatDuration(86400 + 300)).toBe('1 day');
+      expect(formatDuration(86400 + 300, { maxUnits: 3 })).toBe('1 day 5 minutes');
+      expect(formatDuration(-90 * 60, { maxUnits: 1 })).toBe('1 hour');
+      expect(formatDuration(30)).toBe('0 minutes');
+    });
+
+    it('should support locales and unit display', () => {
+      expect(formatDuration(36 * 3600, { locale: 'de-DE' })).toBe('1 Tag, 12 Stunden');
+      expect(formatDuration(36 * 3600, { unitDisplay: 'short' })).toBe('1 day, 12 hr');
+    });
+  });
+
+  describe('formatBlockDuration', () => {
+    it('should format block counts', () => {
+      expect(formatBlockDuration(216)).toBe('~1 day 12 hours');
+      expect(formatBlockDuration(144)).toBe('~1 day');
+      expect(formatBlockDuration(1)).toBe('~10 minutes');
+      expect(formatBlockDuration(720, 5, { maxUnits: 1 })).toBe('~1 hour');
+    });
+
+    it('should accept a BlockClock', () => {
+      const clock = new BlockClock({
+        bitcoin: [
+          { height: 100, timestamp: 0 },
+          { height: 200, timestamp: 48_000 },
+        ],
+      });
+      expect(formatBlockDuration(144, clock)).toBe('~19 hours 12 minutes');
+      expect(formatBlockDuration(720, clock, { chain: 'stacks' })).toBe('~1 hour');
+    });
+  });
+
+  describe('estimateBlockDurations', () => {
+    it('should estimate Stacks and Bitcoin durations', () => {
+      const now = new Date(NOW);
+      const result = estimateBlockDurations(1000, 1720, { now });
+
+      expect(result.blocks).toBe(720);
+      expect(result.stacks).toMatchObject({ seconds: 3600, duration: '~1 hour', relative: 'in 1 hour' });
+      expect(result.bitcoin).toMatchObject({ seconds: 432000, duration: '~5 days', relative: 'in 5 days' });
+      expect(result.bitcoin.date.toISOString()).toBe('2025-01-06T00:00:00.000Z');
+
+      const past = estimateBlockDurations(1144, 1000, { now });
+      expect(past.bitcoin.relative).toBe('1 day ago');
+    });
+  });
+
+  describe('formatLargeNumber', () => {
+    it('should use SI suffixes', () => {
+      expect(formatLargeNumber(1500000)).toBe('1.50M');
+      expect(formatLargeNumber(2.5e12, 1)).toBe('2.5T');
+    });
+  });
+
+  describe('printClarityValue', () => {
+    const ALICE = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+    const value = cvTuple({
+      to: cvPrincipal(ALICE, 'vault'),
+      amounts: cvList([cvUint(1), cvInt(-2n)]),
+      memo: cvSome(cvBuff('0xbeef')),
+      note: cvNone(),
+    });
+
+    it('should render Clarity source', () => {
+      expect(printClarityValue(value)).toBe(
+        `{ to: '${ALICE}.vault, amounts: (list u1 -2), memo: (some 0xbeef), note: none }`
+      );
+      expect(printClarityValue(cvOk(cvBool(true)))).toBe('(ok true)');
+      expect(printClarityValue(cvErr(cvUint(404)))).toBe('(err u404)');
+      expect(printClarityValue(cvList([]))).toBe('(list)');
+      expect(printClarityValue(cvStringAscii('say "hi"\n'))).toBe('"say \\"hi\\"\\n"');
+      expect(printClarityValue(cvStringUtf8('gm ☀'))).toBe('u"gm \\u{2600}"');
+      expect(() => printClarityValue({ type: 'map', value: {} })).toThrow('Unknown Clarity type');
+    });
+
+    it('should render indented multi-line output', () => {
+      expect(printClarityValue(cvOk(value), { multiline: true })).toBe(
+        [
+          '(ok {',
+          `  to: '${ALICE}.vault,`,
+          '  amounts: (list',
+          '    u1',
+          '    -2',
+          '  ),',
+          '  memo: (some 0xbeef),',
+          '  note: none',
+          '})',
+        ].join('\n')
+      );
+    });
+
+    it('should highlight for HTML and ANSI', () => {
+      expect(printClarityValue(cvSome(cvStringAscii('<b>')), { highlight: 'html' })).toBe(
+        '(<span class="cv-keyword">some</span> <span class="cv-string">&quot;&lt;b&gt;&quot;</span>)'
+      );
+      expect(printClarityValue(cvUint(7), { highlight: 'ansi' })).toBe('\x1b[33mu7\x1b[0m');
+    });
+
+    it('should be used by formatClarityValue for compound types', () => {
+      expect(formatClarityValue('uint', 5n)).toBe('5');
+      expect(formatClarityValue('tuple', { a: cvUint(1n) })).toBe('{ a: u1 }');
+      expect(formatClarityValue('custom', { big: 1n })).toBe('{"big":"1"}');
+    });
+
+    it('should keep formatting raw compound values as JSON', () => {
+      expect(formatClarityValue('list', [1, 2])).toBe('[1,2]');
+      expect(formatClarityValue('tuple', { a: 1, b: 2n })).toBe('{"a":1,"b":"2"}');
+      expect(formatClarityValue('optional', 5)).toBe('5');
+      expect(formatClarityValue('ok', { success: true })).toBe('{"success":true}');
+      expect(formatClarityValue('list', [cvUint(1n), 2])).toBe('[{"type":"uint","value":"1"},2]');
+      expect(formatClarityValue('optional', null)).toBe('none');
+    });
+  });
+
+  describe('formatHash', () => {
+    it('should shorten and normalise hashes', () => {
+      const hash = '0xABCDEF0123456789abcdef0123456789abcdef0123456789abcdef0123456789';
+      expect(formatHash(hash)).toBe('0xabcdef01...23456789');
+      expect(formatHash(hash.slice(2), 4)).toBe('0xabcd...6789');
+      expect(formatHash('0x1234')).toBe('0x1234');
+      expect(formatHash('not-a-hash')).toBe('not-a-hash');
+    });
+  });
+
+  describe('formatByteSize', () => {
+    it('should format decimal and binary sizes', () => {
+      expect(formatByteSize(512)).toBe('512 B');
+      expect(formatByteSize(1400)).toBe('1.4 KB');
+      expect(formatByteSize(2_500_000n)).toBe('2.5 MB');
+      expect(formatByteSize(1536, { binary: true })).toBe('1.5 KiB');
+      expect(formatByteSize(1400, { locale: 'de-DE' })).toBe('1,4 KB');
+    });
+  });
+
+  describe('formatExecutionCost', () => {
+    const cost = { read_count: 3, read_length: 1200, write_count: 1, write_length: 40, runtime: 12345 };
+
+    it('should format cost units', () => {
+      expect(formatExecutionCost(cost)).toBe('runtime 12,345 · reads 3 (1.2 KB) · writes 1 (40 B)');
+    });
+
+    it('should append block limit usage', () => {
+      expect(formatExecutionCost({ ...cost, write_count: 150 }, { limits: BLOCK_EXECUTION_LIMITS })).toBe(
+        'runtime 12,345 [0%] · reads 3 (1.2 KB) [0.02%] · writes 150 (40 B) [1%]'
+      );
+    });
+  });
+
+  describe('fees', () => {
+    it('should format fee rates and fees', () => {
+      expect(formatFeeRate(1.5)).toBe('1.5 µSTX/byte');
+      expect(formatFee(estimateFee(200, 1.5))).toBe('0.0003 STX');
+      expect(formatFee(300n, { sizeBytes: 200 })).toBe('0.0003 STX (1.5 µSTX/byte)');
+      expect(formatFee(1_234_500_000n, { locale: 'de-DE' })).toBe('1.234,5 STX');
+    });
+  });
+});
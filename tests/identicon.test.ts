@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { generateAddressIdenticon } from '../src/identicon';
+import { getLocalPlaceholderImage } from '../src/nft';
+
+describe('Identicon Utilities', () => {
+  const ADDRESS = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+  const CONTRACT = 'SP2KAF9RF86PVX3NEE27DFV1CQX0T4WGR41X3S45C.marketplace-v4';
+
+  describe('generateAddressIdenticon', () => {
+    it('should generate a deterministic SVG', () => {
+      const svg = generateAddressIdenticon(ADDRESS);
+      expect(svg.startsWith('<svg')).toBe(true);
+      expect(svg).toContain('width="64"');
+      expect(generateAddressIdenticon(ADDRESS)).toBe(svg);
+    });
+
+    it('should differ between principals and seeds', () => {
+      const other = 'ST2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKQYAC0RQ';
+      expect(generateAddressIdenticon(CONTRACT)).not.toBe(generateAddressIdenticon(ADDRESS));
+      expect(generateAddressIdenticon(CONTRACT, { seed: 1 })).not.toBe(
+        generateAddressIdenticon(CONTRACT, { seed: 2 })
+      );
+      // Same hash160 on both networks gives the same identicon
+      expect(generateAddressIdenticon(other)).toBe(generateAddressIdenticon(ADDRESS));
+    });
+
+    it('should produce mirrored patterns', () => {
+      const svg = generateAddressIdenticon(ADDRESS);
+      const cells = [...svg.matchAll(/<rect x="(\d)" y="(\d)"/g)].map(m => `${m[1]},${m[2]}`);
+      cells.forEach(cell => {
+        const [x, y] = cell.split(',').map(Number);
+        expect(cells).toContain(`${4 - x},${y}`);
+      });
+    });
+
+    it('should return data URIs', () => {
+      const uri = generateAddressIdenticon(ADDRESS, { size: 32, format: 'data-uri' });
+      expect(uri.startsWith('data:image/svg+xml;utf8,')).toBe(true);
+      expect(decodeURIComponent(uri.split(',')[1])).toContain('width="32"');
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => generateAddressIdenticon('invalid')).toThrow();
+      expect(() => generateAddressIdenticon(ADDRESS, { size: 0 })).toThrow();
+    });
+  });
+
+  describe('getLocalPlaceholderImage', () => {
+    it('should generate an offline placeholder per token', () => {
+      const first = getLocalPlaceholderImage(CONTRACT, 1);
+      expect(first.startsWith('data:image/svg+xml')).toBe(true);
+      expect(getLocalPlaceholderImage(CONTRACT, 2)).not.toBe(first);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { PageFetcher, PageIterator } from '../src/pagination';
+import { StacksApiClient } from '../src/client';
+import { createApiConfig } from '../src/api';
+import { MockApi, RecordedRequest, startMockApi } from './fixtures/mock-api';
+
+describe('Pagination Utilities', () => {
+  const ITEMS = Array.from({ length: 23 }, (_, i) => i);
+
+  /** In-memory list endpoint that records requests and concurrency */
+  const createFetcher = (items: readonly number[] = ITEMS, reportTotal = true) => {
+    const calls: [number, number][] = [];
+    let active = 0;
+    let maxActive = 0;
+
+    const fetchPage: PageFetcher<number> = async (offset, limit) => {
+      calls.push([offset, limit]);
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      active--;
+      const results = items.slice(offset, offset + limit);
+      return reportTotal ? { results, total: items.length } : { results };
+    };
+
+    return { fetchPage, calls, maxActive: () => maxActive };
+  };
+
+  describe('PageIterator', () => {
+    it('should read every page', async () => {
+      const { fetchPage, calls } = createFetcher();
+      const iterator = new PageIterator(fetchPage, { pageSize: 10 });
+
+      expect(await iterator.toArray()).toEqual(ITEMS);
+      expect(calls).toEqual([
+        [0, 10],
+        [10, 10],
+        [20, 10],
+      ]);
+      expect(iterator.cursor).toEqual({ offset: 23, total: 23 });
+    });
+
+    it('should clamp the page size to the endpoint maximum', async () => {
+      const { fetchPage, calls } = createFetcher();
+      await new PageIterator(fetchPage, { pageSize: 500, maxPageSize: 20 }).toArray();
+      expect(calls.map(([, limit]) => limit)).toEqual([20, 20]);
+    });
+
+    it('should stop at maxItems without over-fetching', async () => {
+      const { fetchPage, calls } = createFetcher();
+      const items = await new PageIterator(fetchPage, { pageSize: 10, maxItems: 12 }).toArray();
+
+      expect(items).toEqual(ITEMS.slice(0, 12));
+      expect(calls).toEqual([
+        [0, 10],
+        [10, 2],
+      ]);
+    });
+
+    it('should stop on a short page when no total is reported', async () => {
+      const { fetchPage, calls } = createFetcher(ITEMS, false);
+      const items = await new PageIterator(fetchPage, { pageSize: 10, prefetch: 3 }).toArray();
+
+      expect(items).toEqual(ITEMS);
+      expect(calls[0]).toEqual([0, 10]);
+    });
+
+    it('should prefetch up to the concurrency limit', async () => {
+      const items = Array.from({ length: 100 }, (_, i) => i);
+      const { fetchPage, calls, maxActive } = createFetcher(items);
+
+      const result = await new PageIterator(fetchPage, { pageSize: 10, prefetch: 3 }).toArray();
+      expect(result).toEqual(items);
+      expect(calls).toHaveLength(10);
+      expect(maxActive()).toBe(3);
+    });
+
+    it('should stop fetching on early termination and resume from the cursor', async () => {
+      const { fetchPage, calls } = createFetcher();
+      const iterator = new PageIterator(fetchPage, { pageSize: 10 });
+
+      const seen: number[] = [];
+      for await (const item of iterator) {
+        seen.push(item);
+        if (item === 13) break;
+      }
+      expect(seen).toEqual(ITEMS.slice(0, 14));
+      expect(calls).toHaveLength(2);
+
+      const saved = JSON.parse(JSON.stringify(iterator.cursor));
+      expect(saved.offset).toBe(14);
+
+      const rest = await new PageIterator(fetchPage, { pageSize: 10, cursor: saved }).toArray();
+      expect(rest).toEqual(ITEMS.slice(14));
+      expect(calls.slice(2)).toEqual([[14, 10]]);
+    });
+
+    it('should abort in-flight pages when the signal fires', async () => {
+      const controller = new AbortController();
+      const fetchPage: PageFetcher<number> = (_offset, _limit, signal) =>
+        new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))));
+
+      const pending = new PageIterator(fetchPage, { signal: controller.signal }).toArray();
+      controller.abort();
+      await expect(pending).rejects.toThrow('aborted');
+    });
+
+    it('should reject invalid options', () => {
+      const { fetchPage } = createFetcher();
+      expect(() => new PageIterator(fetchPage, { pageSize: 0 })).toThrow('Invalid page size');
+      expect(() => new PageIterator(fetchPage, { prefetch: -1 })).toThrow('Invalid prefetch');
+      expect(() => new PageIterator(fetchPage, { cursor: { offset: -1 } })).toThrow('Invalid cursor');
+    });
+  });
+
+  describe('StacksApiClient iterators', () => {
+    const ADDRESS = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+    let api: MockApi;
+
+    afterEach(async () => {
+      await api.close();
+    });
+
+    const query = (request: RecordedRequest) => new URL(request.path, 'http://localhost').searchParams;
+
+    const listRoute = (total: number) => (request: RecordedRequest) => {
+      const limit = Number(query(request).get('limit'));
+      const offset = Number(query(request).get('offset'));
+      const count = Math.max(Math.min(limit, total - offset), 0);
+      return {
+        body: {
+          limit,
+          offset,
+          total,
+          results: Array.from({ length: count }, (_, i) => ({ tx_id: `tx${offset + i}` })),
+        },
+      };
+    };
+
+    it('should page through address transactions within the API limit', async () => {
+      api = await startMockApi({ [`/extended/v1/address/${ADDRESS}/transactions`]: listRoute(120) });
+      const client = new StacksApiClient(createApiConfig('mainnet', api.url));
+
+      const iterator = client.iterateAddressTransactions<{ tx_id: string }>(ADDRESS, { pageSize: 100 });
+      const txs = await iterator.toArray();
+      expect(txs).toHaveLength(120);
+      expect(txs[119].tx_id).toBe('tx119');
+      expect(api.requests.map(request => query(request).get('limit'))).toEqual(['50', '50', '50']);
+    });
+
+    it('should send the principal for NFT holdings', async () => {
+      api = await startMockApi({ '/extended/v1/tokens/nft/holdings': listRoute(3) });
+      const client = new StacksApiClient(createApiConfig('mainnet', api.url));
+
+      const holdings = await client.iterateNftHoldings(ADDRESS, { maxItems: 2 }).toArray();
+      expect(holdings).toHaveLength(2);
+      expect(query(api.requests[0]).get('principal')).toBe(ADDRESS);
+    });
+
+    it('should map BNS pages to offsets', async () => {
+      const names = Array.from({ length: 250 }, (_, i) => `name${i}.btc`);
+      api = await startMockApi({
+        '/v1/namespaces/btc/names': request => {
+          const page = Number(query(request).get('page'));
+          return { body: names.slice(page * 100, page * 100 + 100) };
+        },
+      });
+      const client = new StacksApiClient(createApiConfig('mainnet', api.url));
+
+      expect(await client.iterateBnsNames({ namespace: 'btc' }).toArray()).toEqual(names);
+
+      const resumed = await client.iterateBnsNames({ namespace: 'btc', cursor: { offset: 150 } }).toArray();
+      expect(resumed).toEqual(names.slice(150));
+    });
+  });
+});
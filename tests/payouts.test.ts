@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import { c32address } from 'c32check';
+import {
+  allocatePayout,
+  buildPayoutBatches,
+  parsePayoutCsv,
+  exportPayoutCsv,
+  SEND_MANY_CONTRACT_MAINNET,
+} from '../src/payouts';
+import { decodeMemo } from '../src/memo';
+
+describe('Payout Utilities', () => {
+  const ALICE = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7';
+  const BOB = 'SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR';
+  const CAROL = 'SP102V8P0F7JX67ARQ77WEA3D3CFB5XW39REDT0AM';
+  const USDA = 'SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR.usda-token::usda';
+
+  const address = (i: number) => c32address(22, i.toString(16).padStart(40, '0'));
+
+  describe('allocatePayout', () => {
+    it('should split by weight with exact remainders', () => {
+      const plan = allocatePayout(
+        [
+          { recipient: ALICE, weight: 1 },
+          { recipient: BOB, weight: 1 },
+          { recipient: CAROL, weight: 1 },
+        ],
+        100n
+      );
+
+      expect(plan.allocations.map(allocation => allocation.amount)).toEqual([34n, 33n, 33n]);
+      expect(plan.undistributed).toBe(0n);
+    });
+
+    it('should give leftovers to the largest fractional shares', () => {
+      const plan = allocatePayout(
+        [
+          { recipient: ALICE, weight: '0.2' },
+          { recipient: BOB, weight: '0.5' },
+          { recipient: CAROL, weight: '0.3' },
+        ],
+        9n
+      );
+      // 1.8, 4.5, 2.7 -> floors 1, 4, 2; leftovers to ALICE (0.8) and CAROL (0.7)
+      expect(plan.allocations.map(allocation => allocation.amount)).toEqual([2n, 4n, 3n]);
+    });
+
+    it('should pay fixed amounts before weights', () => {
+      const plan = allocatePayout(
+        [
+          { recipient: ALICE, amount: 500n, memo: 'bonus' },
+          { recipient: BOB, weight: 3n },
+          { recipient: CAROL, weight: 1n },
+        ],
+        1000n
+      );
+
+      expect(plan.allocations).toEqual([
+        { recipient: ALICE, amount: 500n, memo: 'bonus' },
+        { recipient: BOB, amount: 375n },
+        { recipient: CAROL, amount: 125n },
+      ]);
+    });
+
+    it('should report undistributed amounts without weights', () => {
+      expect(allocatePayout([{ recipient: ALICE, amount: 10n }], 15n).undistributed).toBe(5n);
+      expect(allocatePayout([{ recipient: ALICE, amount: 10n }]).total).toBe(10n);
+    });
+
+    it('should reject invalid input', () => {
+      expect(() => allocatePayout([{ recipient: 'nope', amount: 1n }])).toThrow('Invalid recipient at index 0');
+      expect(() => allocatePayout([{ recipient: ALICE }])).toThrow('exactly one of amount or weight');
+      expect(() => allocatePayout([{ recipient: ALICE, weight: 1 }])).toThrow('A total is required');
+      expect(() => allocatePayout([{ recipient: ALICE, amount: 10n }], 5n)).toThrow('exceed the payout total');
+      expect(() => allocatePayout([{ recipient: ALICE, amount: 1n, memo: 'x'.repeat(35) }])).toThrow(
+        'longer than 34 bytes'
+      );
+    });
+  });
+
+  describe('buildPayoutBatches', () => {
+    it('should chunk STX payouts into send-many calls', () => {
+      const recipients = Array.from({ length: 450 }, (_, i) => ({ recipient: address(i + 1), weight: 1 }));
+      const plan = allocatePayout(recipients, 1_000_000_000n);
+      const batches = buildPayoutBatches(plan.allocations, { sender: ALICE });
+
+      expect(batches.map(batch => batch.allocations.length)).toEqual([200, 200, 50]);
+      expect(batches.reduce((sum, batch) => sum + batch.total, 0n)).toBe(1_000_000_000n);
+
+      const [first] = batches;
+      expect(`${first.payload.contractAddress}.${first.payload.contractName}`).toBe(SEND_MANY_CONTRACT_MAINNET);
+      expect(first.payload.functionName).toBe('send-many');
+      expect(first.postConditions).toEqual([
+        { type: 'stx', principal: ALICE, conditionCode: 'eq', amount: first.total },
+      ]);
+      expect(first.estimatedFee).toBe(BigInt(first.estimatedSize));
+      expect(first.estimatedSize).toBeGreaterThan(200 * 50);
+    });
+
+    it('should encode memos and skip zero amounts', () => {
+      const batches = buildPayoutBatches([
+        { recipient: ALICE, amount: 5n, memo: 'gm' },
+        { recipient: BOB, amount: 0n },
+      ]);
+
+      const list = batches[0].payload.functionArgs[0].value as { value: Record<string, { value: unknown }> }[];
+      expect(list).toHaveLength(1);
+      expect(list[0].value.to.value).toBe(ALICE);
+      expect(list[0].value.ustx.value).toBe(5n);
+      expect(decodeMemo(list[0].value.memo.value as string)).toBe('gm');
+    });
+
+    it('should build SIP-010 batches', () => {
+      const batches = buildPayoutBatches(
+        [
+          { recipient: ALICE, amount: 5n, memo: 'gm' },
+          { recipient: CAROL, amount: 7n },
+        ],
+        { asset: USDA, contractId: `${BOB}.usda-send-many`, sender: BOB, maxBatchSize: 1, feeRate: 10 }
+      );
+
+      expect(batches).toHaveLength(2);
+      expect(batches[0].payload.contractName).toBe('usda-send-many');
+      const entry = (batches[1].payload.functionArgs[0].value as { value: Record<string, unknown> }[])[0];
+      expect(entry.value.amount).toEqual({ type: 'uint', value: 7n });
+      expect(entry.value.memo).toEqual({ type: 'optional', value: null });
+      expect(batches[0].postConditions[0]).toMatchObject({
+        type: 'fungible',
+        amount: 5n,
+        assetInfo: { contractName: 'usda-token', assetName: 'usda' },
+      });
+      expect(batches[0].estimatedFee).toBe(BigInt(batches[0].estimatedSize * 10));
+      expect(() => buildPayoutBatches([], { asset: 'usda' })).toThrow('Invalid asset identifier');
+      expect(() => buildPayoutBatches([], { asset: USDA })).toThrow('contractId is required');
+    });
+  });
+
+  describe('CSV', () => {
+    it('should parse recipients with quoted fields', () => {
+      const csv = `address,amount,weight,memo\r\n${ALICE},1.5,,"hello, ""world"""\n${BOB},,2,\n\n`;
+
+      expect(parsePayoutCsv(csv, { decimals: 6 })).toEqual([
+        { recipient: ALICE, amount: 1_500_000n, memo: 'hello, "world"' },
+        { recipient: BOB, weight: '2' },
+      ]);
+      expect(() => parsePayoutCsv(`recipient,amount\n${ALICE},1.5`)).toThrow('Invalid amount on line 2');
+      expect(() => parsePayoutCsv('amount\n1')).toThrow('"recipient" column');
+    });
+
+    it('should round-trip allocations', () => {
+      const allocations = [
+        { recipient: ALICE, amount: 1_250_000n, memo: 'a,b' },
+        { recipient: BOB, amount: 3n },
+      ];
+      const csv = exportPayoutCsv(allocations, { decimals: 6 });
+
+      expect(csv).toBe(`recipient,amount,memo\n${ALICE},1.25,"a,b"\n${BOB},0.000003,\n`);
+      expect(allocatePayout(parsePayoutCsv(csv, { decimals: 6 })).allocations).toEqual(allocations);
+    });
+  });
+});
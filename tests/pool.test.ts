@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { EndpointHealth, EndpointPool, FailoverEvent } from '../src/pool';
+import { StacksApiError } from '../src/client';
+import { MockApi, startMockApi } from './fixtures/mock-api';
+
+describe('EndpointPool', () => {
+  let primary: MockApi;
+  let backup: MockApi;
+
+  const info = (height: number) => ({
+    body: {
+      network_id: 1,
+      server_version: 'stacks-node',
+      burn_block_height: 870000,
+      stacks_tip_height: height,
+      stacks_tip: '0x00',
+    },
+  });
+
+  beforeEach(async () => {
+    primary = await startMockApi({ '/v2/info': info(1000), '/data': { body: { from: 'primary' } } });
+    backup = await startMockApi({ '/v2/info': info(1000), '/data': { body: { from: 'backup' } } });
+  });
+
+  afterEach(async () => {
+    await primary.close();
+    await backup.close();
+  });
+
+  it('should require valid endpoints', () => {
+    expect(() => new EndpointPool([])).toThrow('at least one endpoint');
+    expect(() => new EndpointPool([{ url: 'http://localhost', weight: 0 }])).toThrow('Invalid endpoint');
+  });
+
+  it('should probe tips and refuse lagging endpoints', async () => {
+    backup.setRoute('/v2/info', info(980));
+    const pool = new EndpointPool([primary.url, backup.url], { maxLag: 10 });
+
+    const states = await pool.probe();
+    expect(states.map(state => [state.health, state.tipHeight, state.lag])).toEqual([
+      ['healthy', 1000, 0],
+      ['lagging', 980, 20],
+    ]);
+
+    for (let i = 0; i < 5; i++) {
+      expect(await pool.request('/data')).toEqual({ from: 'primary' });
+    }
+    expect(backup.requests.filter(request => request.path === '/data')).toHaveLength(0);
+  });
+
+  it('should distribute requests by weight', async () => {
+    const draws = [0.1, 0.5, 0.9];
+    const pool = new EndpointPool(
+      [
+        { url: primary.url, weight: 3 },
+        { url: backup.url, weight: 1 },
+      ],
+      { random: () => draws.shift() ?? 0 }
+    );
+    await pool.probe();
+
+    // Weights 3:1 split the [0, 1) range at 0.75
+    expect(pool.select()?.url).toBe(primary.url);
+    expect(pool.select()?.url).toBe(primary.url);
+    expect(pool.select()?.url).toBe(backup.url);
+  });
+
+  it('should fail over on server errors and skip the failed endpoint', async () => {
+    primary.setRoute('/data', { status: 503 });
+    const failovers: FailoverEvent[] = [];
+    const pool = new EndpointPool([primary.url, backup.url], {
+      random: () => 0,
+      onFailover: event => failovers.push(event),
+    });
+
+    expect(await pool.request('/data')).toEqual({ from: 'backup' });
+    expect(failovers).toHaveLength(1);
+    expect(failovers[0].from).toBe(primary.url);
+    expect(failovers[0].error.status).toBe(503);
+
+    expect(pool.getEndpoints()[0]).toMatchObject({ health: 'down', failures: 1 });
+    expect(await pool.request('/data')).toEqual({ from: 'backup' });
+    expect(primary.requests.filter(request => request.path === '/data')).toHaveLength(1);
+  });
+
+  it('should retry a failed endpoint after its cooldown', async () => {
+    let now = 0;
+    primary.setRoute('/data', { status: 503 });
+    const pool = new EndpointPool([primary.url, backup.url], {
+      cooldown: 1000,
+      random: () => 0,
+      now: () => now,
+    });
+    await pool.request('/data');
+
+    backup.setRoute('/data', { status: 503 });
+    primary.setRoute('/data', { body: { from: 'primary' } });
+    await expect(pool.request('/data')).rejects.toThrow('HTTP 503');
+    await expect(pool.request('/data')).rejects.toThrow('No healthy endpoints');
+
+    now = 1000;
+    expect(await pool.request('/data')).toEqual({ from: 'primary' });
+    expect(pool.getEndpoints()[0].health).toBe('unknown');
+  });
+
+  it('should not fail over on client errors', async () => {
+    primary.setRoute('/data', { status: 404 });
+    const pool = new EndpointPool([primary.url, backup.url], { random: () => 0 });
+
+    const error = await pool.request('/data').catch(e => e);
+    expect(error).toBeInstanceOf(StacksApiError);
+    expect(error.status).toBe(404);
+    expect(backup.requests).toHaveLength(0);
+  });
+
+  it('should throw the last error when every endpoint fails', async () => {
+    primary.setRoute('/data', { status: 502 });
+    backup.setRoute('/data', { status: 503 });
+    const pool = new EndpointPool([primary.url, backup.url], { random: () => 0 });
+
+    const error = await pool.request('/data').catch(e => e);
+    expect(error.status).toBe(503);
+  });
+
+  it('should report health changes and recover on a successful probe', async () => {
+    const changes: [string, EndpointHealth, EndpointHealth][] = [];
+    const pool = new EndpointPool([primary.url], {
+      onHealthChange: (state, previous) => changes.push([state.url, previous, state.health]),
+    });
+
+    primary.setRoute('/v2/info', { status: 500 });
+    await pool.probe();
+    primary.setRoute('/v2/info', info(1001));
+    await pool.probe();
+
+    expect(changes).toEqual([
+      [primary.url, 'unknown', 'down'],
+      [primary.url, 'down', 'healthy'],
+    ]);
+    expect(pool.getEndpoints()[0]).toMatchObject({ failures: 0, tipHeight: 1001 });
+  });
+
+  it('should run typed client calls with failover', async () => {
+    await primary.close();
+    const pool = new EndpointPool([primary.url, backup.url], { random: () => 0 });
+
+    const result = await pool.execute(client => client.getInfo());
+    expect(result.stacks_tip_height).toBe(1000);
+  });
+
+  it('should probe in the background until stopped', async () => {
+    const pool = new EndpointPool([primary.url], { probeInterval: 20 });
+    pool.start();
+    await new Promise(resolve => setTimeout(resolve, 70));
+    pool.stop();
+    // Let a probe that was already in flight arrive
+    await new Promise(resolve => setTimeout(resolve, 30));
+
+    const probes = primary.requests.length;
+    expect(probes).toBeGreaterThanOrEqual(2);
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(primary.requests.length).toBe(probes);
+  });
+});
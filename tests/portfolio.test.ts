@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { buildPortfolio, sortHoldings, diffPortfolios } from '../src/portfolio';
+import { AccountBalance } from '../src/api';
+import { StaticPriceOracle } from '../src/prices';
+import { TokenRegistry } from '../src/tokenregistry';
+import { SBTC } from '../src/constants';
+
+describe('Portfolio Utilities', () => {
+  const SBTC_ASSET = `${SBTC.CONTRACT_MAINNET}::sbtc-token`;
+  const USDA_ASSET = 'SP2C2YFP12AJZB4MABJBAJ55XECVS7E4PMMZ89YZR.usda-token::usda';
+  const UNKNOWN_ASSET = 'SP3K8BC0PPEVCV7NZ6QSRWPQ2JE9E5B6N3PA0KBR9.meme-token::meme';
+  const NFT_ASSET = 'SP2KAF9RF86PVX3NEE27DFV1CQX0T4WGR41X3S45C.bitcoin-monkeys::bitcoin-monkeys';
+
+  const balance = (stx: string, locked: string, sbtc: string, nfts = '2'): AccountBalance => ({
+    stx: { balance: stx, total_sent: '0', total_received: stx, locked },
+    fungible_tokens: {
+      [SBTC_ASSET]: { balance: sbtc, total_sent: '0', total_received: sbtc },
+      [USDA_ASSET]: { balance: '0', total_sent: '5', total_received: '5' },
+      [UNKNOWN_ASSET]: { balance: '42', total_sent: '0', total_received: '42' },
+    },
+    non_fungible_tokens: {
+      [NFT_ASSET]: { count: nfts, total_sent: '0', total_received: nfts },
+    },
+  });
+
+  const oracle = new StaticPriceOracle([
+    { base: 'stx', quote: 'USD', price: '2', timestamp: 1700000000 },
+    { base: SBTC_ASSET, quote: 'USD', price: '60000', timestamp: 1700000000 },
+  ]);
+
+  describe('buildPortfolio', () => {
+    it('should split available and locked STX', async () => {
+      const portfolio = await buildPortfolio(balance('5000000000', '3000000000', '0'));
+
+      expect(portfolio.stx.balance.toString()).toBe('5000');
+      expect(portfolio.stx.locked.toString()).toBe('3000');
+      expect(portfolio.stx.available.raw).toBe(2000000000n);
+    });
+
+    it('should resolve token metadata and skip zero balances', async () => {
+      const portfolio = await buildPortfolio(balance('0', '0', '150000000'));
+
+      expect(portfolio.fungibleTokens.map(token => token.symbol)).toEqual(['meme', 'sBTC']);
+      const sbtc = portfolio.fungibleTokens.find(token => token.assetId === SBTC_ASSET);
+      expect(sbtc).toMatchObject({ decimals: 8, known: true, verified: true });
+      expect(sbtc?.balance.toString()).toBe('1.5');
+
+      const unknown = portfolio.fungibleTokens.find(token => token.assetId === UNKNOWN_ASSET);
+      expect(unknown).toMatchObject({ decimals: 0, known: false, verified: false });
+      expect(portfolio.nonFungibleTokens[0]).toMatchObject({ assetName: 'bitcoin-monkeys', count: 2n });
+
+      const all = await buildPortfolio(balance('0', '0', '0'), TokenRegistry.withDefaults(), undefined, {
+        includeZeroBalances: true,
+      });
+      expect(all.fungibleTokens).toHaveLength(3);
+    });
+
+    it('should attach fiat values when prices are given', async () => {
+      const portfolio = await buildPortfolio(
+        balance('1000000', '0', '50000000'),
+        TokenRegistry.withDefaults(),
+        oracle
+      );
+
+      expect(portfolio.stx.fiatValue?.toString()).toBe('2');
+      expect(portfolio.totalFiatValue?.toString()).toBe('30002');
+      expect(portfolio.fungibleTokens.find(token => !token.known)?.fiatValue).toBeUndefined();
+    });
+  });
+
+  describe('sortHoldings', () => {
+    it('should sort by value, balance and symbol', async () => {
+      const portfolio = await buildPortfolio(
+        balance('1000000', '0', '1000'),
+        TokenRegistry.withDefaults(),
+        oracle
+      );
+      const holdings = [portfolio.stx, ...portfolio.fungibleTokens];
+
+      expect(sortHoldings(holdings).map(token => token.symbol)).toEqual(['STX', 'sBTC', 'meme']);
+      expect(sortHoldings(holdings, 'balance').map(token => token.symbol)).toEqual(['meme', 'STX', 'sBTC']);
+      expect(sortHoldings(holdings, 'symbol', 'desc').map(token => token.symbol)).toEqual([
+        'STX',
+        'sBTC',
+        'meme',
+      ]);
+    });
+  });
+
+  describe('diffPortfolios', () => {
+    it('should report changes between snapshots', async () => {
+      const registry = TokenRegistry.withDefaults();
+      const yesterday = await buildPortfolio(balance('10000000', '0', '100', '2'), registry, oracle);
+      const today = await buildPortfolio(balance('22500000', '0', '100', '3'), registry, oracle);
+
+      const diff = diffPortfolios(yesterday, today);
+      expect(diff.tokens).toHaveLength(1);
+      expect(diff.tokens[0].delta.format({ signDisplay: 'always', showSymbol: true })).toBe('+12.5 STX');
+      expect(diff.nfts).toEqual([{ assetId: NFT_ASSET, before: 2n, after: 3n, delta: 1n }]);
+      expect(diff.fiatDelta?.toString()).toBe('25');
+
+      expect(diffPortfolios(today, yesterday).tokens[0].delta.toString()).toBe('-12.5');
+      expect(diffPortfolios(today, today, { includeUnchanged: true }).tokens).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  StaticPriceOracle,
+  HttpPriceOracle,
+  convertTokenAmount,
+  formatTokenWithFiat,
+  isFiatCurrency,
+} from '../src/prices';
+import { DecimalAmount } from '../src/tokens';
+import { SBTC } from '../src/constants';
+
+describe('Price Utilities', () => {
+  const SBTC_ASSET = `${SBTC.CONTRACT_MAINNET}::sbtc-token`;
+
+  describe('StaticPriceOracle', () => {
+    it('should serve direct and inverse quotes', async () => {
+      const oracle = new StaticPriceOracle();
+      oracle.setPrice('stx', 'USD', '2', 1700000000);
+
+      expect(await oracle.getQuote('stx', 'USD')).toMatchObject({ price: '2', timestamp: 1700000000 });
+      expect((await oracle.getQuote('USD', 'stx'))?.price).toBe('0.5');
+      expect(await oracle.getQuote('stx', 'EUR')).toBeNull();
+    });
+  });
+
+  describe('convertTokenAmount', () => {
+    const oracle = new StaticPriceOracle([
+      { base: 'stx', quote: 'USD', price: '1.7', timestamp: 1700000000 },
+      { base: 'stx', quote: SBTC_ASSET, price: '0.00002', timestamp: 1700000000 },
+    ]);
+
+    it('should convert to fiat with currency decimals', async () => {
+      const result = await convertTokenAmount(1234000000n, 'stx', 'USD', oracle);
+      expect(result.amount.toString()).toBe('2097.8');
+      expect(result.amount.decimals).toBe(2);
+      expect(result.quote.timestamp).toBe(1700000000);
+    });
+
+    it('should convert between tokens exactly', async () => {
+      const result = await convertTokenAmount(DecimalAmount.parse('123456789012.345678', 6), 'stx', SBTC_ASSET, oracle);
+      expect(result.amount.raw).toBe(246913578024691n);
+      expect(result.amount.symbol).toBe('sBTC');
+    });
+
+    it('should throw when no price is available', async () => {
+      await expect(convertTokenAmount(1n, 'stx', 'EUR', oracle)).rejects.toThrow();
+      await expect(convertTokenAmount(1n, 'unknown', 'USD', oracle)).rejects.toThrow();
+    });
+  });
+
+  describe('formatTokenWithFiat', () => {
+    it('should append the fiat value', async () => {
+      const oracle = new StaticPriceOracle();
+      oracle.setPrice('stx', 'USD', '1.7');
+      expect(await formatTokenWithFiat(1234000000n, 'stx', oracle)).toBe('1,234 STX (≈ $2,097.80)');
+    });
+
+    it('should format large fiat values exactly', async () => {
+      const oracle = new StaticPriceOracle();
+      oracle.setPrice('stx', 'USD', '1.01');
+      oracle.setPrice('stx', 'EUR', '1.01');
+      const amount = DecimalAmount.parse('9007199254740993', 6, 'STX');
+
+      expect(await formatTokenWithFiat(amount, 'stx', oracle)).toBe(
+        '9,007,199,254,740,993 STX (≈ $9,097,271,247,288,402.93)'
+      );
+      expect(await formatTokenWithFiat(amount, 'stx', oracle, { currency: 'EUR', locale: 'de-DE' })).toMatch(
+        /\(≈ 9\.097\.271\.247\.288\.402,93\s€\)$/
+      );
+      expect(await formatTokenWithFiat(-1000000n, 'stx', oracle)).toBe('-1 STX (≈ -$1.01)');
+    });
+
+    it('should omit the fiat value without a quote', async () => {
+      expect(await formatTokenWithFiat(1000000n, 'stx', new StaticPriceOracle())).toBe('1 STX');
+    });
+  });
+
+  describe('HttpPriceOracle', () => {
+    let server: Server;
+    let baseUrl: string;
+    const paths: string[] = [];
+
+    beforeAll(async () => {
+      server = createServer((req, res) => {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+        paths.push(url.pathname);
+        if (url.searchParams.get('base') === 'slow') {
+          setTimeout(() => res.end(JSON.stringify({ price: '1' })), 200);
+        } else if (url.searchParams.get('base') === 'stx' && url.searchParams.get('quote') === 'USD') {
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify({ price: '1.25', timestamp: 1700000000 }));
+        } else if (url.searchParams.get('base') === 'error') {
+          res.statusCode = 500;
+          res.end();
+        } else {
+          res.statusCode = 404;
+          res.end();
+        }
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should fetch quotes from a provider', async () => {
+      const oracle = new HttpPriceOracle({ baseUrl });
+      expect(await oracle.getQuote('stx', 'USD')).toMatchObject({
+        base: 'stx',
+        quote: 'USD',
+        price: '1.25',
+        timestamp: 1700000000,
+      });
+    });
+
+    it('should return null for unknown pairs and throw on errors', async () => {
+      const oracle = new HttpPriceOracle({ baseUrl });
+      expect(await oracle.getQuote('stx', 'EUR')).toBeNull();
+      await expect(oracle.getQuote('error', 'USD')).rejects.toThrow('HTTP 500');
+    });
+
+    it('should keep a path prefix in the base URL', async () => {
+      paths.length = 0;
+      await new HttpPriceOracle({ baseUrl: `${baseUrl}/api/v1` }).getQuote('stx', 'USD');
+      await new HttpPriceOracle({ baseUrl: `${baseUrl}/api/v1/` }).getQuote('stx', 'USD');
+      expect(paths).toEqual(['/api/v1/price', '/api/v1/price']);
+    });
+
+    it('should time out slow providers', async () => {
+      const oracle = new HttpPriceOracle({ baseUrl, timeout: 20 });
+      await expect(oracle.getQuote('slow', 'USD')).rejects.toThrow('timed out after 20ms');
+    });
+  });
+
+  describe('isFiatCurrency', () => {
+    it('should detect currency codes', () => {
+      expect(isFiatCurrency('USD')).toBe(true);
+      expect(isFiatCurrency('stx')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  TokenBucket,
+  getRateLimitDelay,
+  getRetryDelay,
+  isRetryable,
+  parseRateLimitHeaders,
+  parseRetryAfter,
+} from '../src/retry';
+import { ApiRateLimitEvent, ApiRetryEvent, StacksApiClient, StacksApiError } from '../src/client';
+import { createApiConfig } from '../src/api';
+import { MockApi, MockRoute, startMockApi } from './fixtures/mock-api';
+
+describe('Retry Utilities', () => {
+  describe('getRetryDelay', () => {
+    it('should back off exponentially up to the maximum', () => {
+      const options = { baseDelay: 100, maxDelay: 1000, jitter: 'none' as const };
+      const delays = [1, 2, 3, 4, 5].map(attempt => getRetryDelay(attempt, options));
+      expect(delays).toEqual([100, 200, 400, 800, 1000]);
+    });
+
+    it('should apply full and equal jitter', () => {
+      expect(getRetryDelay(3, { baseDelay: 100, jitter: 'full', random: () => 0.5 })).toBe(200);
+      expect(getRetryDelay(3, { baseDelay: 100, jitter: 'equal', random: () => 0 })).toBe(200);
+      expect(getRetryDelay(3, { baseDelay: 100, jitter: 'equal', random: () => 0.999 })).toBe(399);
+    });
+  });
+
+  describe('isRetryable', () => {
+    it('should retry rate limits, server errors and network failures', () => {
+      expect(isRetryable('http', 429)).toBe(true);
+      expect(isRetryable('http', 503)).toBe(true);
+      expect(isRetryable('http', 404)).toBe(false);
+      expect(isRetryable('timeout', 0)).toBe(true);
+      expect(isRetryable('network', 0, { retryNetworkErrors: false })).toBe(false);
+      expect(isRetryable('aborted', 0)).toBe(false);
+      expect(isRetryable('parse', 200)).toBe(false);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse seconds and HTTP dates', () => {
+      const now = Date.parse('2026-01-01T00:00:00Z');
+      expect(parseRetryAfter(new Headers({ 'Retry-After': '2' }))).toBe(2000);
+      const date = new Headers({ 'Retry-After': 'Thu, 01 Jan 2026 00:00:05 GMT' });
+      expect(parseRetryAfter(date, now)).toBe(5000);
+      expect(parseRetryAfter(new Headers({ 'Retry-After': 'soon' }))).toBeUndefined();
+      expect(parseRetryAfter(new Headers())).toBeUndefined();
+    });
+  });
+
+  describe('parseRateLimitHeaders', () => {
+    it('should group headers by window', () => {
+      const headers = new Headers({
+        'x-ratelimit-limit-minute': '50',
+        'x-ratelimit-remaining-minute': '0',
+        'x-ratelimit-limit-second': '5',
+        'x-ratelimit-remaining-second': '4',
+      });
+
+      const limits = parseRateLimitHeaders(headers);
+      expect(limits).toContainEqual({ window: 'minute', limit: 50, remaining: 0 });
+      expect(limits).toContainEqual({ window: 'second', limit: 5, remaining: 4 });
+      expect(getRateLimitDelay(limits)).toBe(60000);
+    });
+
+    it('should read reset values as seconds or Unix timestamps', () => {
+      const now = 1_800_000_000_000;
+      const relative = parseRateLimitHeaders(
+        new Headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '3' })
+      );
+      const absolute = parseRateLimitHeaders(
+        new Headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1800000010' }),
+        now
+      );
+
+      expect(getRateLimitDelay(relative)).toBe(3000);
+      expect(getRateLimitDelay(absolute)).toBe(10000);
+      expect(getRateLimitDelay(parseRateLimitHeaders(new Headers({ 'x-ratelimit-remaining': '3' })))).toBe(0);
+    });
+  });
+
+  describe('TokenBucket', () => {
+    it('should allow bursts up to capacity and refill over time', () => {
+      let now = 0;
+      const bucket = new TokenBucket({ capacity: 2, refillRate: 4, now: () => now });
+
+      expect(bucket.tryTake()).toBe(true);
+      expect(bucket.tryTake()).toBe(true);
+      expect(bucket.tryTake()).toBe(false);
+      expect(bucket.getWaitTime()).toBe(250);
+
+      now = 250;
+      expect(bucket.tryTake()).toBe(true);
+      now = 10_000;
+      expect(bucket.available).toBe(2);
+    });
+
+    it('should hold callers while paused', () => {
+      let now = 0;
+      const bucket = new TokenBucket({ capacity: 5, refillRate: 1, now: () => now });
+
+      bucket.pauseFor(1000);
+      expect(bucket.available).toBe(0);
+      expect(bucket.getWaitTime()).toBe(1000);
+      now = 1000;
+      expect(bucket.tryTake()).toBe(true);
+    });
+
+    it('should serve waiting callers in order', async () => {
+      const bucket = new TokenBucket({ capacity: 1, refillRate: 100 });
+      const order: number[] = [];
+
+      await Promise.all([1, 2, 3].map(i => bucket.take().then(() => order.push(i))));
+      expect(order).toEqual([1, 2, 3]);
+    });
+
+    it('should reject an aborted caller while it waits in line', async () => {
+      const bucket = new TokenBucket({ capacity: 1, refillRate: 10 });
+      const controller = new AbortController();
+      const events: string[] = [];
+
+      await bucket.take();
+      const second = bucket.take().then(() => events.push('second'));
+      const third = bucket.take(1, controller.signal).catch(() => events.push('third aborted'));
+      const fourth = bucket.take().then(() => events.push('fourth'));
+      controller.abort();
+
+      await Promise.all([second, third, fourth]);
+      expect(events).toEqual(['third aborted', 'second', 'fourth']);
+      expect(bucket.available).toBe(0);
+    });
+
+    it('should reject invalid settings', () => {
+      expect(() => new TokenBucket({ capacity: 0, refillRate: 1 })).toThrow('Invalid token bucket');
+      expect(() => new TokenBucket({ capacity: 1, refillRate: 1 }).getWaitTime(2)).toThrow('Cannot take');
+    });
+  });
+
+  describe('StacksApiClient retries', () => {
+    let api: MockApi;
+
+    beforeEach(async () => {
+      api = await startMockApi();
+    });
+
+    afterEach(async () => {
+      await api.close();
+    });
+
+    const sequence = (...responses: MockRoute[]): MockRoute => {
+      let call = 0;
+      return request => {
+        const route = responses[Math.min(call++, responses.length - 1)];
+        return typeof route === 'function' ? route(request) : route;
+      };
+    };
+
+    const createClient = (options: ConstructorParameters<typeof StacksApiClient>[1] = {}) =>
+      new StacksApiClient(createApiConfig('mainnet', api.url), options);
+
+    it('should retry 503 responses with backoff and report retries', async () => {
+      api.setRoute(
+        '/v2/info',
+        sequence({ status: 503 }, { status: 503 }, { body: { stacks_tip_height: 5 } })
+      );
+      const retries: ApiRetryEvent[] = [];
+
+      const client = createClient({
+        retry: { baseDelay: 1, jitter: 'none' },
+        hooks: { onRetry: event => retries.push(event) },
+      });
+
+      expect(await client.request('/v2/info')).toEqual({ stacks_tip_height: 5 });
+      expect(api.requests).toHaveLength(3);
+      expect(retries.map(event => [event.attempt, event.delay, event.error.status])).toEqual([
+        [1, 1, 503],
+        [2, 2, 503],
+      ]);
+    });
+
+    it('should wait for Retry-After on 429 responses', async () => {
+      api.setRoute('/v2/info', sequence({ status: 429, headers: { 'Retry-After': '0.05' } }, { body: {} }));
+      const retries: ApiRetryEvent[] = [];
+      const client = createClient({
+        retry: { baseDelay: 1 },
+        hooks: { onRetry: event => retries.push(event) },
+      });
+
+      const started = Date.now();
+      await client.request('/v2/info');
+
+      expect(retries[0].delay).toBe(50);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+    });
+
+    it('should give up when Retry-After exceeds the maximum delay', async () => {
+      api.setRoute('/v2/info', { status: 429, headers: { 'Retry-After': '120' } });
+
+      const error = await createClient({ retry: {} }).request('/v2/info').catch(e => e);
+      expect(error).toBeInstanceOf(StacksApiError);
+      expect(error.status).toBe(429);
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('should stop after maxRetries and not retry client errors', async () => {
+      api.setRoute('/v2/info', { status: 503 });
+      api.setRoute('/v2/missing', { status: 404 });
+      const client = createClient({ retry: { maxRetries: 2, baseDelay: 1 } });
+
+      await expect(client.request('/v2/info')).rejects.toThrow('HTTP 503');
+      expect(api.requests).toHaveLength(3);
+      await expect(client.request('/v2/missing')).rejects.toThrow('HTTP 404');
+      expect(api.requests).toHaveLength(4);
+    });
+
+    it('should only retry POST requests when the policy allows it', async () => {
+      api.setRoute('/v2/transactions', { status: 503 });
+      const options = { method: 'POST' as const, body: '0x00' };
+
+      const defaults = createClient({ retry: { baseDelay: 1 } });
+      await expect(defaults.request('/v2/transactions', options)).rejects.toThrow('HTTP 503');
+      expect(api.requests).toHaveLength(1);
+
+      const client = createClient({ retry: { maxRetries: 1, baseDelay: 1, retryMethods: ['GET', 'POST'] } });
+      await expect(client.request('/v2/transactions', options)).rejects.toThrow('HTTP 503');
+      expect(api.requests).toHaveLength(3);
+    });
+
+    it('should not retry without a retry policy', async () => {
+      api.setRoute('/v2/info', { status: 503 });
+
+      await expect(createClient().request('/v2/info')).rejects.toThrow('HTTP 503');
+      expect(api.requests).toHaveLength(1);
+    });
+
+    it('should pause a shared limiter on exhausted rate-limit windows', async () => {
+      api.setRoute('/v2/info', {
+        body: {},
+        headers: { 'x-ratelimit-remaining-second': '0', 'x-ratelimit-reset-second': '0.05' },
+      });
+      const limiter = new TokenBucket({ capacity: 10, refillRate: 10 });
+      const limits: number[] = [];
+      const hooks = { onRateLimit: (event: ApiRateLimitEvent) => limits.push(event.delay) };
+
+      await createClient({ rateLimiter: limiter, hooks }).request('/v2/info');
+      expect(limits).toEqual([50]);
+      expect(limiter.getWaitTime()).toBeGreaterThan(0);
+
+      const started = Date.now();
+      await createClient({ rateLimiter: limiter }).request('/v2/info');
+      expect(Date.now() - started).toBeGreaterThanOrEqual(40);
+    });
+
+    it('should abort while waiting to retry', async () => {
+      api.setRoute('/v2/info', { status: 503 });
+      const controller = new AbortController();
+      const client = createClient({
+        retry: { baseDelay: 10_000, jitter: 'none' },
+        hooks: { onRetry: () => controller.abort() },
+      });
+
+      const error = await client.request('/v2/info', { signal: controller.signal }).catch(e => e);
+      expect(error.code).toBe('aborted');
+    });
+  });
+});
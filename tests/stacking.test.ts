@@ -7,6 +7,8 @@ import {
   calculateUnlockBlock,
   formatStackingDuration,
   isValidPoxBtcAddress,
+  getTimeUntilCycleEnd,
+  BlockClock,
   POX_CONSTANTS,
 } from '../src/stacking';
 
@@ -106,5 +108,76 @@ describe('Stacking Utilities', () => {
       expect(isValidPoxBtcAddress('SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7')).toBe(false);
     });
   });
-});
 
+  describe('BlockClock', () => {
+    const T0 = 1_700_000_000;
+    const clock = new BlockClock({
+      bitcoin: [
+        { height: 800_000, timestamp: T0 },
+        { height: 800_100, timestamp: T0 + 100 * 580 },
+      ],
+      stacks: [{ height: 2_000_000, timestamp: T0 }],
+    });
+
+    it('should estimate timestamps between and beyond anchors', () => {
+      expect(clock.estimateTimestamp('bitcoin', 800_100)).toEqual({
+        estimate: T0 + 58_000,
+        earliest: T0 + 58_000,
+        latest: T0 + 58_000,
+      });
+      expect(clock.estimateTimestamp('bitcoin', 800_050).estimate).toBe(T0 + 29_000);
+
+      const future = clock.estimateTimestamp('bitcoin', 800_200);
+      expect(future.estimate).toBe(T0 + 116_000);
+      expect(future.earliest).toBe(T0 + 58_000 + 100 * 60);
+      expect(future.latest).toBe(T0 + 58_000 + 100 * 7200);
+
+      const past = clock.estimateTimestamp('bitcoin', 799_990);
+      expect(past.estimate).toBe(T0 - 5_800);
+      expect(past.latest).toBe(T0 - 600);
+    });
+
+    it('should bound interpolated estimates by both anchors', () => {
+      const range = clock.estimateTimestamp('bitcoin', 800_099);
+      expect(range.earliest).toBe(T0 + 58_000 - 7200);
+      expect(range.latest).toBe(T0 + 58_000 - 60);
+    });
+
+    it('should estimate heights from dates', () => {
+      expect(clock.estimateHeight('bitcoin', T0 + 29_000).estimate).toBe(800_050);
+      expect(clock.estimateHeight('bitcoin', new Date((T0 + 58_000 + 5_800) * 1000)).estimate).toBe(800_110);
+      expect(clock.estimateHeight('stacks', T0 + 3600)).toEqual({
+        estimate: 2_000_720,
+        earliest: 2_000_000,
+        latest: 2_003_600,
+      });
+    });
+
+    it('should be refreshable with new anchors', () => {
+      const refreshed = new BlockClock({}, { maxAnchors: 2 });
+      expect(() => refreshed.estimateHeight('bitcoin', T0)).toThrow('No bitcoin block anchors');
+      expect(refreshed.getBlockTime('bitcoin')).toBe(600);
+
+      refreshed
+        .addAnchor('bitcoin', { height: 100, timestamp: T0 })
+        .addAnchor('bitcoin', { height: 200, timestamp: T0 + 50_000 })
+        .addAnchor('bitcoin', { height: 300, timestamp: T0 + 110_000 });
+
+      expect(refreshed.getAnchors('bitcoin').map(anchor => anchor.height)).toEqual([200, 300]);
+      expect(refreshed.getBlockTime('bitcoin')).toBe(600);
+      expect(() => refreshed.addAnchor('bitcoin', { height: -1, timestamp: T0 })).toThrow('Invalid block anchor');
+    });
+
+    it('should be accepted by getTimeUntilCycleEnd', () => {
+      const current = GENESIS + 100;
+      const blocks = POX_CONSTANTS.CYCLE_LENGTH - 101;
+      const anchored = new BlockClock(
+        { bitcoin: [{ height: current, timestamp: T0 }] },
+        { bitcoin: { blockTime: 300 } }
+      );
+
+      expect(getTimeUntilCycleEnd(current, anchored).seconds).toBe(blocks * 300);
+      expect(getTimeUntilCycleEnd(current).seconds).toBe(blocks * 600);
+    });
+  });
+});
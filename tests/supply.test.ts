@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCoinbaseReward,
+  getEmittedSupply,
+  getTotalSupply,
+  getInflationRate,
+  projectSupply,
+  LEGACY_STX_EMISSION_SCHEDULE,
+  STACKS_GENESIS_BTC_HEIGHT,
+  GENESIS_SUPPLY,
+} from '../src/supply';
+import { calculatePercentOfSupply } from '../src/tokens';
+
+describe('Supply Utilities', () => {
+  const GENESIS = STACKS_GENESIS_BTC_HEIGHT;
+
+  describe('getCoinbaseReward', () => {
+    it('should follow the current schedule', () => {
+      expect(getCoinbaseReward(GENESIS - 1)).toBe(0n);
+      expect(getCoinbaseReward(GENESIS)).toBe(1_000_000_000n);
+      expect(getCoinbaseReward(944_999)).toBe(1_000_000_000n);
+      expect(getCoinbaseReward(945_000)).toBe(500_000_000n);
+      expect(getCoinbaseReward(1_050_000)).toBe(250_000_000n);
+      expect(getCoinbaseReward(1_260_000)).toBe(125_000_000n);
+      expect(getCoinbaseReward(2_000_000)).toBe(62_500_000n);
+    });
+
+    it('should derive the legacy schedule from HALVING_SCHEDULE', () => {
+      expect(LEGACY_STX_EMISSION_SCHEDULE.map(phase => phase.startHeight)).toEqual([
+        666050, 876050, 1086050, 1296050,
+      ]);
+      expect(getCoinbaseReward(876_050, LEGACY_STX_EMISSION_SCHEDULE)).toBe(500_000_000n);
+      expect(getCoinbaseReward(5_000_000, LEGACY_STX_EMISSION_SCHEDULE)).toBe(125_000_000n);
+    });
+  });
+
+  describe('getEmittedSupply', () => {
+    it('should sum rewards across phases', () => {
+      expect(getEmittedSupply(GENESIS - 1)).toBe(0n);
+      expect(getEmittedSupply(GENESIS)).toBe(1_000_000_000n);
+      expect(getEmittedSupply(945_000)).toBe(BigInt(945_000 - GENESIS) * 1_000_000_000n + 500_000_000n);
+      expect(getEmittedSupply(1_087_050, LEGACY_STX_EMISSION_SCHEDULE)).toBe(
+        210_000n * 1_500_000_000n + 1_001n * 250_000_000n
+      );
+    });
+  });
+
+  describe('getTotalSupply', () => {
+    it('should add the genesis supply', () => {
+      expect(getTotalSupply(GENESIS)).toBe(GENESIS_SUPPLY + 1_000_000_000n);
+      expect(getTotalSupply(GENESIS, { genesisSupply: 0n })).toBe(1_000_000_000n);
+    });
+
+    it('should work with calculatePercentOfSupply', () => {
+      const supply = getTotalSupply(900_000);
+      expect(calculatePercentOfSupply(supply / 100n, supply)).toBe(1);
+    });
+  });
+
+  describe('getInflationRate', () => {
+    it('should compute inflation per year and cycle', () => {
+      const supply = getTotalSupply(850_000);
+      const yearly = getInflationRate(850_000, 'year');
+      expect(yearly).toBeCloseTo(Number(52_560n * 1_000_000_000n) / Number(supply), 6);
+      expect(getInflationRate(850_000, 'cycle')).toBeCloseTo(yearly * (2100 / 52560), 6);
+      expect(() => getInflationRate(900_000, 0)).toThrow('Invalid inflation period');
+    });
+
+    it('should fall after a halving', () => {
+      expect(getInflationRate(950_000)).toBeLessThan(getInflationRate(850_000) / 2);
+    });
+  });
+
+  describe('projectSupply', () => {
+    it('should project points at each step', () => {
+      const points = projectSupply(900_000, 1_100_000, 100_000);
+
+      expect(points.map(point => point.btcHeight)).toEqual([900_000, 1_000_000, 1_100_000]);
+      expect(points.map(point => point.reward)).toEqual([1_000_000_000n, 500_000_000n, 250_000_000n]);
+      expect(points[2].totalSupply).toBeGreaterThan(points[1].totalSupply);
+      expect(points[0].percentOfMaxSupply).toBeGreaterThan(80);
+      expect(points[0].percentOfMaxSupply).toBeLessThan(100);
+    });
+
+    it('should reject invalid ranges', () => {
+      expect(() => projectSupply(2, 1)).toThrow('Invalid range');
+      expect(() => projectSupply(1, 2, 0)).toThrow('Invalid step');
+    });
+  });
+});
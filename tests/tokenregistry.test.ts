@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TokenRegistry,
+  KNOWN_TOKENS,
+  STX_ASSET_ID,
+  parseAssetIdentifier,
+  buildAssetIdentifier,
+  formatTokenByAssetId,
+} from '../src/tokenregistry';
+import { SBTC } from '../src/constants';
+
+describe('Token Registry', () => {
+  const SBTC_ASSET = `${SBTC.CONTRACT_MAINNET}::sbtc-token`;
+  const CUSTOM = 'SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7.my-token::usda';
+
+  describe('parseAssetIdentifier', () => {
+    it('should parse asset identifiers', () => {
+      expect(parseAssetIdentifier(SBTC_ASSET)).toEqual({
+        contractId: SBTC.CONTRACT_MAINNET,
+        contractAddress: 'SM3VDXK3WZZSA84XXFKAFAF15NNZX32CTSG82JFQ4',
+        contractName: 'sbtc-token',
+        assetName: 'sbtc-token',
+      });
+      expect(buildAssetIdentifier(SBTC.CONTRACT_MAINNET, 'sbtc-token')).toBe(SBTC_ASSET);
+    });
+
+    it('should reject malformed identifiers', () => {
+      expect(parseAssetIdentifier('')).toBeNull();
+      expect(parseAssetIdentifier(SBTC.CONTRACT_MAINNET)).toBeNull();
+      expect(parseAssetIdentifier('SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7::token')).toBeNull();
+    });
+  });
+
+  describe('TokenRegistry', () => {
+    it('should seed the bundled tokens', () => {
+      const registry = TokenRegistry.withDefaults();
+      expect(registry.size).toBe(KNOWN_TOKENS.length);
+      expect(registry.get(STX_ASSET_ID)?.decimals).toBe(6);
+      expect(registry.get(SBTC_ASSET)?.decimals).toBe(8);
+    });
+
+    it('should keep tokens with the same symbol apart', () => {
+      const registry = TokenRegistry.withDefaults();
+      registry.register({ assetId: CUSTOM, name: 'Fake USDA', symbol: 'USDA', decimals: 2, verified: false });
+
+      expect(registry.findBySymbol('usda')).toHaveLength(2);
+      expect(registry.get(CUSTOM)?.decimals).toBe(2);
+      expect(registry.findByContract('SP2J6ZY48GV1EZ5V2V5RB9MP66SW86PYKKNRV9EJ7.my-token')).toHaveLength(1);
+    });
+
+    it('should reject invalid tokens', () => {
+      const registry = new TokenRegistry();
+      expect(() =>
+        registry.register({ assetId: 'USDA', name: 'USDA', symbol: 'USDA', decimals: 6, verified: true })
+      ).toThrow();
+      expect(() =>
+        registry.register({ assetId: CUSTOM, name: 'X', symbol: 'X', decimals: -1, verified: true })
+      ).toThrow();
+    });
+
+    it('should round-trip through JSON', () => {
+      const registry = TokenRegistry.withDefaults();
+      const restored = TokenRegistry.fromJSON(JSON.stringify(registry));
+      expect(restored.list()).toEqual(registry.list());
+    });
+  });
+
+  describe('formatTokenByAssetId', () => {
+    it('should look up decimals and symbol', () => {
+      expect(formatTokenByAssetId(150000000n, SBTC_ASSET)).toBe('1.5 sBTC');
+      expect(formatTokenByAssetId(1500000n, 'stx', { showSymbol: false })).toBe('1.5');
+    });
+
+    it('should use a custom registry', () => {
+      const registry = new TokenRegistry([
+        { assetId: CUSTOM, name: 'Fake USDA', symbol: 'fUSDA', decimals: 2, verified: false },
+      ]);
+      expect(formatTokenByAssetId(12345n, CUSTOM, { registry })).toBe('123.45 fUSDA');
+    });
+
+    it('should throw for unknown tokens', () => {
+      expect(() => formatTokenByAssetId(1n, CUSTOM)).toThrow();
+    });
+  });
+});
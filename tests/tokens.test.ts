@@ -7,6 +7,8 @@ import {
   formatStx,
   formatSbtc,
   compareTokenAmounts,
+  DecimalAmount,
+  divideWithRounding,
 } from '../src/tokens';
 
 describe('Token Utilities', () => {
@@ -98,5 +100,160 @@ describe('Token Utilities', () => {
       expect(compareTokenAmounts(1000, '1000')).toBe(0);
     });
   });
-});
 
+  describe('precision', () => {
+    it('should not lose digits above 2^53', () => {
+      expect(formatTokenAmount(123456789012345678901n, 6)).toBe('123,456,789,012,345.678901');
+      expect(parseTokenAmount('123456789012345.678901', 6)).toBe(123456789012345678901n);
+      expect(stxToMicroStx('9007199254.740993')).toBe(9007199254740993n);
+    });
+
+    it('should handle 8-decimal tokens exactly', () => {
+      expect(parseTokenAmount('0.29', 8)).toBe(29000000n);
+      expect(formatSbtc(2100000000000001n)).toBe('21,000,000.00000001 sBTC');
+    });
+  });
+
+  describe('DecimalAmount', () => {
+    it('should parse decimal strings without floats', () => {
+      expect(DecimalAmount.parse('1234.5', 6).raw).toBe(1234500000n);
+      expect(DecimalAmount.parse('-0.000001', 6).raw).toBe(-1n);
+      expect(DecimalAmount.parse('1e3', 6).raw).toBe(1000000000n);
+      expect(DecimalAmount.parse('.5', 2).raw).toBe(50n);
+      expect(() => DecimalAmount.parse('1.2.3', 6)).toThrow();
+      expect(() => DecimalAmount.parse('', 6)).toThrow();
+    });
+
+    it('should round excess digits when parsing', () => {
+      expect(DecimalAmount.parse('0.0000015', 6).raw).toBe(2n);
+      expect(DecimalAmount.parse('0.0000015', 6, '', 'down').raw).toBe(1n);
+      expect(DecimalAmount.parse('0.0000025', 6, '', 'half-even').raw).toBe(2n);
+    });
+
+    it('should reject exponents far beyond the token decimals', () => {
+      expect(DecimalAmount.parse('1e-106', 6).raw).toBe(0n);
+      expect(DecimalAmount.parse('1e100', 0).raw).toBe(10n ** 100n);
+      expect(() => DecimalAmount.parse('1e-5000000', 6)).toThrow('exponent out of range');
+      expect(() => DecimalAmount.parse('1e2000000', 6)).toThrow('exponent out of range');
+      expect(() => DecimalAmount.parse(`1e${'9'.repeat(400)}`, 6)).toThrow('exponent out of range');
+      expect(() => parseTokenAmount('1e-40000000', 6)).toThrow('Invalid token amount');
+      expect(() => DecimalAmount.fromRaw(1n).mul('1e-1000')).toThrow('exponent out of range');
+    });
+
+    it('should add and subtract exactly', () => {
+      const a = DecimalAmount.parse('0.1', 6, 'STX');
+      const b = DecimalAmount.parse('0.2', 6, 'STX');
+      expect(a.add(b).toString()).toBe('0.3');
+      expect(a.sub(b).toString()).toBe('-0.1');
+      expect(a.add(1n).raw).toBe(100001n);
+      expect(() => a.add(DecimalAmount.parse('1', 8))).toThrow();
+    });
+
+    it('should multiply and divide with rounding', () => {
+      const amount = DecimalAmount.fromRaw(10n, 6);
+      expect(amount.mul('1.5').raw).toBe(15n);
+      expect(amount.div(3).raw).toBe(3n);
+      expect(amount.div(3, 'up').raw).toBe(4n);
+      expect(amount.div(4, 'half-even').raw).toBe(2n);
+      expect(amount.mul(DecimalAmount.parse('0.25', 2)).raw).toBe(3n);
+      expect(() => amount.div(0)).toThrow();
+    });
+
+    it('should rescale between decimals', () => {
+      const amount = DecimalAmount.parse('1.23456789', 8);
+      expect(amount.rescale(6).raw).toBe(1234568n);
+      expect(amount.rescale(6, 'down').raw).toBe(1234567n);
+      expect(amount.rescale(10).raw).toBe(12345678900n);
+    });
+
+    it('should compare amounts', () => {
+      const one = DecimalAmount.parse('1', 6);
+      expect(one.gt(0n)).toBe(true);
+      expect(one.lt(DecimalAmount.parse('2', 6))).toBe(true);
+      expect(one.eq(1000000n)).toBe(true);
+      expect(one.negate().isNegative()).toBe(true);
+      expect(one.negate().abs().eq(one)).toBe(true);
+    });
+
+    it('should format with locale and symbol', () => {
+      const amount = DecimalAmount.parse('1234567.891', 6, 'STX');
+      expect(amount.formatted).toBe('1,234,567.891');
+      expect(amount.format({ locale: 'de-DE', showSymbol: true })).toBe('1.234.567,891 STX');
+      expect(amount.format({ maxDecimals: 2, rounding: 'floor' })).toBe('1,234,567.89');
+      expect(DecimalAmount.parse('-0.5', 6).format()).toBe('-0.5');
+    });
+
+    it('should serialise to JSON', () => {
+      expect(JSON.stringify(DecimalAmount.fromRaw(5n, 6, 'STX'))).toBe(
+        '{"raw":"5","decimals":6,"symbol":"STX"}'
+      );
+    });
+  });
+
+  describe('divideWithRounding', () => {
+    it('should support all rounding modes for negative values', () => {
+      expect(divideWithRounding(-5n, 2n, 'down')).toBe(-2n);
+      expect(divideWithRounding(-5n, 2n, 'up')).toBe(-3n);
+      expect(divideWithRounding(-5n, 2n, 'floor')).toBe(-3n);
+      expect(divideWithRounding(-5n, 2n, 'ceil')).toBe(-2n);
+      expect(divideWithRounding(-5n, 2n, 'half-up')).toBe(-3n);
+      expect(divideWithRounding(-5n, 2n, 'half-down')).toBe(-2n);
+      expect(divideWithRounding(-5n, 2n, 'half-even')).toBe(-2n);
+    });
+  });
+
+  describe('locale formatting', () => {
+    const amount = DecimalAmount.parse('1234567.891', 6, 'STX');
+
+    it('should format compact notation', () => {
+      expect(amount.format({ notation: 'compact' })).toBe('1.2M');
+      expect(amount.format({ notation: 'compact', maxDecimals: 2 })).toBe('1.23M');
+      expect(DecimalAmount.parse('2500000000000', 6).format({ notation: 'compact' })).toBe('2.5T');
+      expect(amount.format({ notation: 'compact', locale: 'de-DE', compactDisplay: 'short' })).toBe(
+        '1,2\u00a0Mio.'
+      );
+    });
+
+    it('should format scientific notation', () => {
+      expect(amount.format({ notation: 'scientific', significantDigits: 3 })).toBe('1.23E6');
+    });
+
+    it('should truncate to significant digits', () => {
+      expect(DecimalAmount.parse('0.00012345', 8).format({ significantDigits: 2 })).toBe('0.00012');
+      expect(amount.format({ significantDigits: 3 })).toBe('1,230,000');
+    });
+
+    it('should show dust amounts', () => {
+      const dust = DecimalAmount.fromRaw(1n, 8, 'sBTC');
+      expect(dust.format({ maxDecimals: 6, showDust: true, showSymbol: true })).toBe('<0.000001 sBTC');
+      expect(dust.negate().format({ maxDecimals: 2, showDust: true })).toBe('>-0.01');
+      expect(dust.format({ maxDecimals: 6 })).toBe('0');
+      expect(formatTokenAmount(1n, 8, { maxDecimals: 6, showDust: true })).toBe('<0.000001');
+    });
+
+    it('should display signs for deltas', () => {
+      const delta = DecimalAmount.parse('12.5', 6, 'STX');
+      expect(delta.format({ signDisplay: 'always', showSymbol: true })).toBe('+12.5 STX');
+      expect(delta.negate().format({ signDisplay: 'always' })).toBe('-12.5');
+      expect(DecimalAmount.zero().format({ signDisplay: 'exceptZero' })).toBe('0');
+      expect(delta.negate().format({ signDisplay: 'never' })).toBe('12.5');
+    });
+  });
+
+  describe('locale parsing', () => {
+    it('should parse with the locale decimal separator', () => {
+      expect(parseTokenAmount('1.234,56', 6, 'de-DE')).toBe(1234560000n);
+      expect(parseTokenAmount('1,5', 6, 'de-DE')).toBe(1500000n);
+      expect(parseTokenAmount('1 234,5', 6, 'fr-FR')).toBe(1234500000n);
+      expect(parseTokenAmount('1,234.5', 6)).toBe(1234500000n);
+    });
+
+    it('should round-trip formatted amounts', () => {
+      const amount = DecimalAmount.parse('-9876543.21', 6, 'STX');
+      for (const locale of ['en-US', 'de-DE', 'fr-FR', 'de-CH', 'ar-EG', 'hi-IN']) {
+        const formatted = amount.format({ locale, showSymbol: true });
+        expect(DecimalAmount.parseFormatted(formatted, 6, { locale, symbol: 'STX' }).raw).toBe(amount.raw);
+      }
+    });
+  });
+});
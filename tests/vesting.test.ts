@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getVestedAmount,
+  getVestingStatus,
+  getVestingUnlocks,
+  getVestingTimeline,
+  getVestingEndBlock,
+  getVestingTotal,
+  estimateBlockDate,
+  VestingSchedule,
+} from '../src/vesting';
+
+describe('Vesting Utilities', () => {
+  const linear: VestingSchedule = {
+    kind: 'linear',
+    totalAmount: 1_000_000n,
+    startBlock: 1000,
+    cliffBlocks: 250,
+    durationBlocks: 1000,
+  };
+
+  describe('getVestedAmount', () => {
+    it('should vest linearly after the cliff', () => {
+      expect(getVestedAmount(linear, 999)).toBe(0n);
+      expect(getVestedAmount(linear, 1249)).toBe(0n);
+      expect(getVestedAmount(linear, 1250)).toBe(250_000n);
+      expect(getVestedAmount(linear, 1500)).toBe(500_000n);
+      expect(getVestedAmount(linear, 5000)).toBe(1_000_000n);
+    });
+
+    it('should round linear vesting down', () => {
+      const schedule: VestingSchedule = { kind: 'linear', totalAmount: 10n, startBlock: 0, durationBlocks: 3 };
+      expect(getVestedAmount(schedule, 1)).toBe(3n);
+      expect(getVestedAmount(schedule, 2)).toBe(6n);
+      expect(getVestedAmount(schedule, 3)).toBe(10n);
+    });
+
+    it('should vest everything at the cliff', () => {
+      const schedule: VestingSchedule = { kind: 'cliff', totalAmount: 500n, startBlock: 100, cliffBlocks: 50 };
+      expect(getVestedAmount(schedule, 149)).toBe(0n);
+      expect(getVestedAmount(schedule, 150)).toBe(500n);
+    });
+
+    it('should vest stepwise with the remainder in the last tranche', () => {
+      const schedule: VestingSchedule = {
+        kind: 'stepwise',
+        totalAmount: 100n,
+        startBlock: 0,
+        durationBlocks: 300,
+        periodBlocks: 100,
+      };
+      expect(getVestingUnlocks(schedule).map(unlock => unlock.amount)).toEqual([33n, 33n, 34n]);
+      expect(getVestedAmount(schedule, 99)).toBe(0n);
+      expect(getVestedAmount(schedule, 200)).toBe(66n);
+      expect(getVestedAmount(schedule, 300)).toBe(100n);
+    });
+
+    it('should release explicit tranches and merge those before the cliff', () => {
+      const schedule: VestingSchedule = {
+        kind: 'stepwise',
+        startBlock: 0,
+        cliffBlocks: 250,
+        periodBlocks: 100,
+        tranches: [10n, 20n, 30n, 40n],
+      };
+      expect(getVestingTotal(schedule)).toBe(100n);
+      expect(getVestingUnlocks(schedule)).toEqual([
+        { block: 250, amount: 30n, cumulative: 30n },
+        { block: 300, amount: 30n, cumulative: 60n },
+        { block: 400, amount: 40n, cumulative: 100n },
+      ]);
+      expect(getVestingEndBlock(schedule)).toBe(400);
+    });
+
+    it('should reject invalid schedules', () => {
+      expect(() => getVestedAmount({ kind: 'linear', totalAmount: 1n, startBlock: 0 }, 1)).toThrow(
+        'Invalid vesting duration'
+      );
+      expect(() =>
+        getVestedAmount(
+          { kind: 'stepwise', totalAmount: 1n, startBlock: 0, durationBlocks: 250, periodBlocks: 100 },
+          1
+        )
+      ).toThrow('not a multiple');
+      expect(() => getVestedAmount({ kind: 'cliff', totalAmount: -1n, startBlock: 0 }, 1)).toThrow(
+        'Invalid vesting amount'
+      );
+    });
+  });
+
+  describe('getVestingStatus', () => {
+    it('should report vested, unvested and claimable amounts', () => {
+      const status = getVestingStatus(linear, 1500, 200_000n);
+
+      expect(status).toMatchObject({
+        vested: 500_000n,
+        unvested: 500_000n,
+        claimable: 300_000n,
+        percentVested: 50,
+        endBlock: 2000,
+        isFullyVested: false,
+      });
+      expect(status.nextUnlock).toEqual({ block: 2000, amount: 750_000n, cumulative: 1_000_000n });
+    });
+
+    it('should reject claims above the vested amount', () => {
+      expect(() => getVestingStatus(linear, 1100, 1n)).toThrow('exceeds vested amount');
+      expect(() => getVestingStatus(linear, 1100, -1n)).toThrow('Invalid claimed amount: -1');
+    });
+  });
+
+  describe('getVestingTimeline', () => {
+    it('should estimate unlock dates', () => {
+      const now = new Date('2025-01-01T00:00:00Z');
+      const timeline = getVestingTimeline(linear, 1106, { now });
+
+      expect(timeline).toHaveLength(2);
+      expect(timeline[0]).toMatchObject({ block: 1250, blocksUntil: 144, isUnlocked: false, timeUntil: '~1 day' });
+      expect(timeline[0].estimatedDate.toISOString()).toBe('2025-01-02T00:00:00.000Z');
+
+      const later = getVestingTimeline(linear, 1300, { now, blockTime: 5 });
+      expect(later[0]).toMatchObject({ isUnlocked: true, timeUntil: 'unlocked' });
+      expect(later[1].timeUntil).toBe('~58 minutes');
+    });
+  });
+
+  describe('estimateBlockDate', () => {
+    it('should estimate past and future blocks', () => {
+      const now = new Date('2025-01-01T00:00:00Z');
+      expect(estimateBlockDate(106, 100, now).toISOString()).toBe('2025-01-01T01:00:00.000Z');
+      expect(estimateBlockDate(94, 100, now).toISOString()).toBe('2024-12-31T23:00:00.000Z');
+    });
+  });
+});